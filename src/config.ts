@@ -1,49 +1,196 @@
 import { config as dotenvConfig } from 'dotenv';
 import { z } from 'zod';
+import { resolve } from 'path';
+import { createLogger, configureLogger } from './kernel/logger.js';
+
+const log = createLogger('config');
 
 // Load .env file
 const dotenvResult = dotenvConfig();
-console.log('[config] dotenv loaded:', dotenvResult.error ? `error: ${dotenvResult.error.message}` : 'success');
-console.log('[config] ANTHROPIC_API_KEY:', process.env.ANTHROPIC_API_KEY ? `set (${process.env.ANTHROPIC_API_KEY.substring(0, 15)}...)` : 'NOT SET');
+log.info('dotenv loaded', dotenvResult.error ? `error: ${dotenvResult.error.message}` : 'success');
+log.info('ANTHROPIC_API_KEY', process.env.ANTHROPIC_API_KEY ? 'set' : 'NOT SET');
+
+// One allowlist entry: a Discord user or role and what it may do
+const accessEntrySchema = z.object({
+  type: z.enum(['user', 'role']),
+  id: z.string().regex(/^\d+$/, 'must be a Discord user or role ID'),
+  level: z.enum(['read-only', 'prompt', 'admin']),
+});
+
+// A bearer token for the kernel MCP server and the tools it may call
+const mcpTokenSchema = z.object({
+  token: z.string().min(16, 'MCP tokens must be at least 16 characters'),
+  level: z.enum(['read-only', 'prompt', 'admin']),
+});
+
+// Discord settings required when the Discord transport is selected, with their env vars
+const DISCORD_REQUIRED = {
+  discordBotToken: 'DISCORD_BOT_TOKEN',
+  discordOwnerId: 'DISCORD_OWNER_ID',
+  discordChannelChat: 'DISCORD_CHANNEL_CHAT',
+  discordChannelVerbose: 'DISCORD_CHANNEL_VERBOSE',
+  discordChannelText: 'DISCORD_CHANNEL_TEXT',
+  discordChannelScreenshots: 'DISCORD_CHANNEL_SCREENSHOTS',
+} as const;
 
 const configSchema = z.object({
+  // Where messages come from: a Discord bot, or a local stdin/stdout REPL
+  transport: z.enum(['discord', 'cli']).default('discord'),
+
   // Discord
-  discordBotToken: z.string().min(1, 'DISCORD_BOT_TOKEN is required'),
-  discordOwnerId: z.string().min(1, 'DISCORD_OWNER_ID is required'),
-  discordChannelChat: z.string().min(1, 'DISCORD_CHANNEL_CHAT is required'),
-  discordChannelVerbose: z.string().min(1, 'DISCORD_CHANNEL_VERBOSE is required'),
-  discordChannelText: z.string().min(1, 'DISCORD_CHANNEL_TEXT is required'),
-  discordChannelScreenshots: z.string().min(1, 'DISCORD_CHANNEL_SCREENSHOTS is required'),
+  discordBotToken: z.string().min(1).optional(),
+  discordOwnerId: z.string().min(1).optional(),
+  discordChannelChat: z.string().min(1).optional(),
+  discordChannelVerbose: z.string().min(1).optional(),
+  discordChannelText: z.string().min(1).optional(),
+  discordChannelScreenshots: z.string().min(1).optional(),
+  // Users and roles besides the owner (who is always admin)
+  discordAllowlist: z.array(accessEntrySchema).default([]),
 
   // MCP Server
   mcpPort: z.number().int().positive().default(3100),
+  // Interface to listen on; anything but loopback exposes restart_kernel to the network
+  mcpHost: z.string().min(1).default('127.0.0.1'),
+  // Bearer tokens accepted on /mcp (none = no auth: every client gets admin scope)
+  mcpTokens: z.array(mcpTokenSchema).default([]),
+
+  // Thread sessions
+  maxConcurrentThreads: z.number().int().positive().default(3),
+
+  // Attachments
+  attachmentMaxImageBytes: z.number().int().positive().default(5 * 1024 * 1024),
+  attachmentMaxFileBytes: z.number().int().positive().default(1024 * 1024),
+  attachmentImageTypes: z.array(z.string()).default(['image/png', 'image/jpeg', 'image/gif', 'image/webp']),
+  attachmentTextExtensions: z.array(z.string()).default([
+    'txt', 'md', 'json', 'yaml', 'yml', 'toml', 'csv', 'log', 'xml', 'html', 'css',
+    'js', 'ts', 'tsx', 'jsx', 'py', 'rb', 'go', 'rs', 'java', 'c', 'h', 'cpp', 'sh', 'sql',
+  ]),
+
+  // Verbose channel: tool output longer than this is attached as a file
+  verboseAttachThreshold: z.number().int().positive().default(1500),
+
+  // Daily budgets (USD, unset = no limit)
+  dailyBudgetSoftUsd: z.number().positive().optional(),
+  dailyBudgetHardUsd: z.number().positive().optional(),
+  budgetHardAction: z.enum(['queue', 'refuse']).default('queue'),
+
+  // Logging
+  logLevel: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+  logFormat: z.enum(['pretty', 'json']).default('pretty'),
+  logFile: z.string().default('logs/kernel.log'),
+  logMaxBytes: z.number().int().positive().default(5 * 1024 * 1024),
+  logMaxFiles: z.number().int().positive().default(5),
+  logBufferSize: z.number().int().positive().default(5000),
+
+  // CLI transport: also print verbose-channel output (tool calls, state changes)
+  cliVerbose: z.boolean().default(false),
+
+  // Messages sent while Claude works join the running query instead of interrupting it
+  steerMode: z.boolean().default(false),
+
+  // Claude's AskUserQuestion: how long to wait for answers, and the answer used
+  // after that (unset = each question's first option)
+  questionTimeoutMs: z.number().int().positive().default(5 * 60 * 1000),
+  questionDefaultAnswer: z.string().min(1).optional(),
+
+  // Running queries: interrupt after this long without an SDK event, or
+  // toolIdleTimeoutMs while a tool call is open, and post elapsed time and
+  // turns this often (0 = off)
+  queryIdleTimeoutMs: z.number().int().nonnegative().default(10 * 60 * 1000),
+  toolIdleTimeoutMs: z.number().int().nonnegative().default(60 * 60 * 1000),
+  progressUpdateMs: z.number().int().nonnegative().default(2 * 60 * 1000),
 
   // Optional
   anthropicApiKey: z.string().optional(),
+}).superRefine((value, ctx) => {
+  if (value.transport !== 'discord') return;
+  for (const [key, envVar] of Object.entries(DISCORD_REQUIRED)) {
+    if (!value[key as keyof typeof DISCORD_REQUIRED]) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `${envVar} is required for the Discord transport` });
+    }
+  }
 });
 
 export type Config = z.infer<typeof configSchema>;
+export type AccessEntry = z.infer<typeof accessEntrySchema>;
+export type McpToken = z.infer<typeof mcpTokenSchema>;
+
+/**
+ * Parse a comma-separated env var into a list, or undefined to use the default
+ */
+function parseList(value: string | undefined): string[] | undefined {
+  if (!value) return undefined;
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Parse DISCORD_ALLOWLIST entries of the form type:id:level, e.g.
+ * user:123456789:admin,role:987654321:prompt. Validation is left to the schema.
+ */
+function parseAllowlist(value: string | undefined): Array<Record<string, string | undefined>> | undefined {
+  return parseList(value)?.map((entry) => {
+    const [type, id, level] = entry.split(':').map(part => part.trim());
+    return { type, id, level };
+  });
+}
+
+/**
+ * Parse MCP_TOKENS entries of the form level:token, e.g.
+ * admin:abc...,read-only:def... Tokens may themselves contain colons.
+ */
+function parseMcpTokens(value: string | undefined): Array<Record<string, string>> | undefined {
+  return parseList(value)?.map((entry) => {
+    const separator = entry.indexOf(':');
+    return { level: entry.slice(0, separator).trim(), token: entry.slice(separator + 1).trim() };
+  });
+}
 
 function loadConfig(): Config {
   const rawConfig = {
+    transport: process.env.KERNEL_TRANSPORT || undefined,
     discordBotToken: process.env.DISCORD_BOT_TOKEN,
     discordOwnerId: process.env.DISCORD_OWNER_ID,
     discordChannelChat: process.env.DISCORD_CHANNEL_CHAT,
     discordChannelVerbose: process.env.DISCORD_CHANNEL_VERBOSE,
     discordChannelText: process.env.DISCORD_CHANNEL_TEXT,
     discordChannelScreenshots: process.env.DISCORD_CHANNEL_SCREENSHOTS,
+    discordAllowlist: parseAllowlist(process.env.DISCORD_ALLOWLIST),
     mcpPort: process.env.MCP_PORT ? parseInt(process.env.MCP_PORT, 10) : 3100,
+    mcpHost: process.env.MCP_HOST || undefined,
+    mcpTokens: parseMcpTokens(process.env.MCP_TOKENS),
+    maxConcurrentThreads: process.env.MAX_CONCURRENT_THREADS ? parseInt(process.env.MAX_CONCURRENT_THREADS, 10) : 3,
+    attachmentMaxImageBytes: process.env.ATTACHMENT_MAX_IMAGE_BYTES ? parseInt(process.env.ATTACHMENT_MAX_IMAGE_BYTES, 10) : undefined,
+    attachmentMaxFileBytes: process.env.ATTACHMENT_MAX_FILE_BYTES ? parseInt(process.env.ATTACHMENT_MAX_FILE_BYTES, 10) : undefined,
+    attachmentImageTypes: parseList(process.env.ATTACHMENT_IMAGE_TYPES),
+    attachmentTextExtensions: parseList(process.env.ATTACHMENT_TEXT_EXTENSIONS),
+    verboseAttachThreshold: process.env.VERBOSE_ATTACH_THRESHOLD ? parseInt(process.env.VERBOSE_ATTACH_THRESHOLD, 10) : undefined,
+    dailyBudgetSoftUsd: process.env.DAILY_BUDGET_SOFT_USD ? parseFloat(process.env.DAILY_BUDGET_SOFT_USD) : undefined,
+    dailyBudgetHardUsd: process.env.DAILY_BUDGET_HARD_USD ? parseFloat(process.env.DAILY_BUDGET_HARD_USD) : undefined,
+    budgetHardAction: process.env.BUDGET_HARD_ACTION || undefined,
+    logLevel: process.env.LOG_LEVEL || undefined,
+    logFormat: process.env.LOG_FORMAT || undefined,
+    logFile: process.env.LOG_FILE || undefined,
+    logMaxBytes: process.env.LOG_MAX_BYTES ? parseInt(process.env.LOG_MAX_BYTES, 10) : undefined,
+    logMaxFiles: process.env.LOG_MAX_FILES ? parseInt(process.env.LOG_MAX_FILES, 10) : undefined,
+    logBufferSize: process.env.LOG_BUFFER_SIZE ? parseInt(process.env.LOG_BUFFER_SIZE, 10) : undefined,
+    cliVerbose: process.env.CLI_VERBOSE === 'true',
+    steerMode: process.env.STEER_MODE === 'true',
+    questionTimeoutMs: process.env.QUESTION_TIMEOUT_MS ? parseInt(process.env.QUESTION_TIMEOUT_MS, 10) : undefined,
+    questionDefaultAnswer: process.env.QUESTION_DEFAULT_ANSWER || undefined,
+    queryIdleTimeoutMs: process.env.QUERY_IDLE_TIMEOUT_MS ? parseInt(process.env.QUERY_IDLE_TIMEOUT_MS, 10) : undefined,
+    toolIdleTimeoutMs: process.env.TOOL_IDLE_TIMEOUT_MS ? parseInt(process.env.TOOL_IDLE_TIMEOUT_MS, 10) : undefined,
+    progressUpdateMs: process.env.PROGRESS_UPDATE_MS ? parseInt(process.env.PROGRESS_UPDATE_MS, 10) : undefined,
     anthropicApiKey: process.env.ANTHROPIC_API_KEY,
   };
 
   const result = configSchema.safeParse(rawConfig);
 
   if (!result.success) {
-    console.error('Configuration error:');
+    log.error('Configuration error:');
     for (const error of result.error.errors) {
-      console.error(`  - ${error.path.join('.')}: ${error.message}`);
+      log.error(`  - ${error.path.join('.')}: ${error.message}`);
     }
-    console.error('\nPlease check your .env file. See .env.example for required variables.');
+    log.error('Please check your .env file. See .env.example for required variables.');
     process.exit(1);
   }
 
@@ -51,3 +198,40 @@ function loadConfig(): Config {
 }
 
 export const config = loadConfig();
+
+export interface DiscordConfig {
+  botToken: string;
+  ownerId: string;
+  channels: { chat: string; verbose: string; text: string; screenshots: string };
+}
+
+/**
+ * Discord settings for the Discord transport (validated when it is selected)
+ */
+export function requireDiscordConfig(): DiscordConfig {
+  const { discordBotToken, discordOwnerId, discordChannelChat, discordChannelVerbose, discordChannelText, discordChannelScreenshots } = config;
+  if (!discordBotToken || !discordOwnerId || !discordChannelChat || !discordChannelVerbose || !discordChannelText || !discordChannelScreenshots) {
+    throw new Error('Discord settings are missing; see .env.example');
+  }
+  return {
+    botToken: discordBotToken,
+    ownerId: discordOwnerId,
+    channels: {
+      chat: discordChannelChat,
+      verbose: discordChannelVerbose,
+      text: discordChannelText,
+      screenshots: discordChannelScreenshots,
+    },
+  };
+}
+
+configureLogger({
+  level: config.logLevel,
+  format: config.logFormat,
+  file: resolve(config.logFile),
+  maxFileBytes: config.logMaxBytes,
+  maxFiles: config.logMaxFiles,
+  bufferSize: config.logBufferSize,
+  // The REPL owns the terminal; logs still go to the file and get_logs
+  console: config.transport !== 'cli',
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { GuildMember } from 'discord.js';
+import { hasAccess, resolveAccessLevel } from './access.js';
+
+vi.mock('../config.js', () => ({
+  config: {
+    discordOwnerId: '100',
+    discordAllowlist: [
+      { type: 'user', id: '200', level: 'read-only' },
+      { type: 'user', id: '300', level: 'prompt' },
+      { type: 'role', id: '900', level: 'prompt' },
+      { type: 'role', id: '901', level: 'admin' },
+    ],
+  },
+}));
+
+// A full GuildMember keeps its roles in a cache keyed by role ID
+function guildMember(roleIds: string[]): GuildMember {
+  return { roles: { cache: new Map(roleIds.map(id => [id, {}])) } } as unknown as GuildMember;
+}
+
+describe('resolveAccessLevel', () => {
+  it('should make the owner admin', () => {
+    expect(resolveAccessLevel('100', null)).toBe('admin');
+  });
+
+  it('should return null for users not on the allowlist', () => {
+    expect(resolveAccessLevel('999', null)).toBeNull();
+    expect(resolveAccessLevel('999', guildMember(['555']))).toBeNull();
+  });
+
+  it('should grant the level of a user entry', () => {
+    expect(resolveAccessLevel('200', null)).toBe('read-only');
+    expect(resolveAccessLevel('300', null)).toBe('prompt');
+  });
+
+  it('should take the highest level from the user and their roles', () => {
+    expect(resolveAccessLevel('200', guildMember(['900']))).toBe('prompt');
+    expect(resolveAccessLevel('300', guildMember(['900', '901']))).toBe('admin');
+    // A lower role does not downgrade a higher user entry
+    expect(resolveAccessLevel('300', guildMember(['555']))).toBe('prompt');
+  });
+
+  it('should read roles from an interaction member\'s ID list', () => {
+    const member = { roles: ['901'] } as unknown as Parameters<typeof resolveAccessLevel>[1];
+    expect(resolveAccessLevel('999', member)).toBe('admin');
+  });
+});
+
+describe('hasAccess', () => {
+  it('should compare levels by rank', () => {
+    expect(hasAccess('admin', 'prompt')).toBe(true);
+    expect(hasAccess('prompt', 'prompt')).toBe(true);
+    expect(hasAccess('read-only', 'prompt')).toBe(false);
+    expect(hasAccess(null, 'read-only')).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+import type { GuildMember, APIInteractionGuildMember } from 'discord.js';
+import { config } from '../config.js';
+import type { AccessLevel } from '../types.js';
+
+const LEVEL_RANK: Record<AccessLevel, number> = {
+  'read-only': 0,
+  prompt: 1,
+  admin: 2,
+};
+
+/**
+ * True if a user's level (null = not allowlisted) meets the required level
+ */
+export function hasAccess(level: AccessLevel | null, required: AccessLevel): boolean {
+  return level !== null && LEVEL_RANK[level] >= LEVEL_RANK[required];
+}
+
+/**
+ * Role IDs of a guild member. Messages carry a full GuildMember; interactions
+ * can carry the raw API member, whose roles are a plain ID list.
+ */
+function memberRoleIds(member: GuildMember | APIInteractionGuildMember | null): string[] {
+  if (!member) return [];
+  return Array.isArray(member.roles) ? member.roles : [...member.roles.cache.keys()];
+}
+
+/**
+ * Highest level granted to a user by the allowlist, directly or through one
+ * of their roles. The owner is always admin; null means not allowed at all.
+ */
+export function resolveAccessLevel(
+  userId: string,
+  member: GuildMember | APIInteractionGuildMember | null
+): AccessLevel | null {
+  if (userId === config.discordOwnerId) return 'admin';
+
+  const roleIds = memberRoleIds(member);
+  let level: AccessLevel | null = null;
+
+  for (const entry of config.discordAllowlist) {
+    const matches = entry.type === 'user' ? entry.id === userId : roleIds.includes(entry.id);
+    if (matches && (level === null || LEVEL_RANK[entry.level] > LEVEL_RANK[level])) {
+      level = entry.level;
+    }
+  }
+
+  return level;
+}
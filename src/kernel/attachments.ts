@@ -0,0 +1,98 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { join, basename, extname } from 'path';
+import { config } from '../config.js';
+import type { PromptImage } from '../types.js';
+import { createLogger } from './logger.js';
+import type { ChatAttachment } from './transport.js';
+
+const log = createLogger('attachments');
+
+const ATTACHMENTS_DIR = 'attachments';
+
+export interface PreparedAttachments {
+  images: PromptImage[];
+  // Paths (relative to cwd) of saved text/code files
+  savedFiles: string[];
+  rejected: { name: string; reason: string }[];
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(1)} MB`
+    : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+function isTextFile(attachment: ChatAttachment): boolean {
+  const extension = extname(attachment.name).slice(1).toLowerCase();
+  return config.attachmentTextExtensions.includes(extension)
+    || (attachment.contentType?.startsWith('text/') ?? false);
+}
+
+/**
+ * Download a message's attachments: images become prompt image blocks,
+ * text and code files are saved under attachments/ in the working
+ * directory, and anything else (or over the size limits) is rejected.
+ */
+export async function prepareAttachments(attachments: ChatAttachment[], cwd: string): Promise<PreparedAttachments> {
+  const prepared: PreparedAttachments = { images: [], savedFiles: [], rejected: [] };
+
+  for (const attachment of attachments) {
+    const contentType = attachment.contentType?.split(';')[0] ?? '';
+
+    try {
+      if (config.attachmentImageTypes.includes(contentType)) {
+        if (attachment.size > config.attachmentMaxImageBytes) {
+          prepared.rejected.push({
+            name: attachment.name,
+            reason: `image is ${formatBytes(attachment.size)}, limit is ${formatBytes(config.attachmentMaxImageBytes)}`,
+          });
+          continue;
+        }
+
+        const data = await attachment.download();
+        prepared.images.push({
+          mediaType: contentType,
+          data: data.toString('base64'),
+          filename: attachment.name,
+        });
+      } else if (isTextFile(attachment)) {
+        if (attachment.size > config.attachmentMaxFileBytes) {
+          prepared.rejected.push({
+            name: attachment.name,
+            reason: `file is ${formatBytes(attachment.size)}, limit is ${formatBytes(config.attachmentMaxFileBytes)}`,
+          });
+          continue;
+        }
+
+        const data = await attachment.download();
+        const filename = `${Date.now()}-${basename(attachment.name).replace(/[^\w.-]/g, '_')}`;
+        const relativePath = join(ATTACHMENTS_DIR, filename);
+        mkdirSync(join(cwd, ATTACHMENTS_DIR), { recursive: true });
+        writeFileSync(join(cwd, relativePath), data);
+        prepared.savedFiles.push(relativePath);
+      } else {
+        prepared.rejected.push({
+          name: attachment.name,
+          reason: `unsupported type ${contentType || extname(attachment.name) || 'unknown'}`,
+        });
+      }
+    } catch (error) {
+      log.error(`Failed to process ${attachment.name}`, error);
+      prepared.rejected.push({
+        name: attachment.name,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return prepared;
+}
+
+/**
+ * Append references to saved attachment files to a prompt
+ */
+export function withFileReferences(content: string, savedFiles: string[]): string {
+  if (savedFiles.length === 0) return content;
+  const references = savedFiles.map(path => `- ${path}`).join('\n');
+  return `${content}\n\n[Attached files saved to the working directory:\n${references}]`.trim();
+}
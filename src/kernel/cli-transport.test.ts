@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CliTransport } from './cli-transport.js';
+import type { ApprovalRequest, QuestionRequest } from '../types.js';
+
+// Lines typed at the REPL
+const stdin = await vi.hoisted(async () => {
+  const { EventEmitter } = await import('events');
+  return new EventEmitter();
+});
+
+vi.mock('readline', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('readline')>()),
+  createInterface: () => Object.assign(stdin, { setPrompt() {}, prompt() {}, close() {} }),
+}));
+
+let output: string;
+let transport: CliTransport;
+
+function approval(toolName: string, timeoutMs = 60_000): ApprovalRequest {
+  return { toolName, input: {}, timeoutMs, defaultDecision: 'deny' };
+}
+
+function question(text: string): QuestionRequest {
+  return {
+    questions: [{ question: text, header: 'Q', multiSelect: false, options: [{ label: 'Red', description: '' }, { label: 'Blue', description: '' }] }],
+    timeoutMs: 60_000,
+    defaultAnswer: null,
+  };
+}
+
+function type(line: string): void {
+  stdin.emit('line', line);
+}
+
+beforeEach(async () => {
+  output = '';
+  vi.spyOn(process.stdout, 'write').mockImplementation((chunk) => {
+    output += String(chunk);
+    return true;
+  });
+  transport = new CliTransport(process.cwd(), false);
+  await transport.connect();
+});
+
+afterEach(async () => {
+  await transport.disconnect();
+  stdin.removeAllListeners();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('CliTransport prompts', () => {
+  it('should answer concurrent prompts one at a time, oldest first', async () => {
+    const first = transport.requestApproval(approval('Bash'));
+    const second = transport.askQuestions(question('Favourite colour?'), '42');
+    const third = transport.requestApproval(approval('Write'));
+
+    // Only the first prompt is on screen
+    expect(output).toContain('Permission requested: Bash');
+    expect(output).not.toContain('Favourite colour?');
+
+    type('maybe');
+    expect(output).toContain('Answer y (approve)');
+    type('y');
+    expect(await first).toBe('allow');
+    expect(output).toContain('(thread:42) Q: Favourite colour?');
+    expect(output).not.toContain('Permission requested: Write');
+
+    type('2');
+    expect(await second).toEqual({ 'Favourite colour?': 'Blue' });
+    type('n');
+    expect(await third).toBe('deny');
+
+    // Back to sending messages
+    const messages: string[] = [];
+    transport.on('message', message => messages.push(message.content));
+    type('hello');
+    expect(messages).toEqual(['hello']);
+  });
+
+  it('should show the next prompt when the current one times out', async () => {
+    vi.useFakeTimers();
+    const first = transport.requestApproval(approval('Bash', 1000));
+    const second = transport.requestApproval(approval('Write', 5000));
+
+    vi.advanceTimersByTime(1000);
+    expect(await first).toBeNull();
+    expect(output).toContain('Timed out, denied by default');
+    expect(output).toContain('Permission requested: Write');
+
+    type('a');
+    expect(await second).toBe('allow_session');
+  });
+
+  it('should drop a queued prompt that times out before it is shown', async () => {
+    vi.useFakeTimers();
+    const first = transport.requestApproval(approval('Bash', 5000));
+    const second = transport.requestApproval(approval('Write', 1000));
+
+    vi.advanceTimersByTime(1000);
+    expect(await second).toBeNull();
+    expect(output).toContain('Permission requested: Write\n⌛ Timed out');
+
+    type('y');
+    expect(await first).toBe('allow');
+  });
+});
@@ -0,0 +1,352 @@
+import { EventEmitter } from 'events';
+import { createInterface, clearLine, cursorTo, type Interface } from 'readline';
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { userInfo } from 'os';
+import { openFence } from './message-chunks.js';
+import { createLogger } from './logger.js';
+import type { ChannelType, ApprovalRequest, ApprovalDecision, QuestionRequest, QuestionAnswers } from '../types.js';
+import type {
+  ChatTransport,
+  ChatMessage,
+  SentMessage,
+  RichMessage,
+  SentRichMessage,
+  OutgoingFile,
+} from './transport.js';
+
+const log = createLogger('cli');
+
+// Images are written here since a terminal can't show them
+const SCREENSHOTS_DIR = 'screenshots';
+
+const HELP = [
+  'Type a message to send it to Claude. Kernel commands:',
+  '  /thread <id>   talk to a separate thread session',
+  '  /main          back to the main session',
+  '  /quit          shut the kernel down',
+  '  !queue ...     queue commands, as in Discord',
+  '  !<message>     interrupt Claude instead of steering (steer mode)',
+].join('\n');
+
+/**
+ * A question waiting for the next typed line
+ */
+interface PendingPrompt {
+  // Rendered when the prompt reaches the front of the queue
+  text: () => string;
+  // Whether a line answers it (default any); other lines print the hint
+  accepts?: (line: string) => boolean;
+  hint?: string;
+  // Printed if it times out
+  expired: string;
+  settle: (line: string | null) => void;
+}
+
+function secondsLeft(deadline: number): number {
+  return Math.round(Math.max(0, deadline - Date.now()) / 1000);
+}
+
+/**
+ * Text a live message actually shows: LiveMessage appends a tool status
+ * line and closes a still-open code fence on every edit, which would
+ * otherwise break streaming the text as appended output
+ */
+function streamedText(content: string): string {
+  let text = content.replace(/\n-# 🔧[^\n]*$/, '');
+  if (text.endsWith('\n```') && openFence(text.slice(0, -4)) !== null) {
+    text = text.slice(0, -4);
+  }
+  return text;
+}
+
+/**
+ * Local stdin/stdout REPL transport, for running and scripting the kernel
+ * without Discord. The person at the terminal is an admin.
+ */
+export class CliTransport extends EventEmitter implements ChatTransport {
+  private cwd: string;
+  private verbose: boolean;
+  private rl: Interface | null = null;
+  private author = userInfo().username;
+  private nextId = 1;
+  private threadId: string | undefined;
+  // Output written without a trailing newline (streamed text)
+  private midLine = false;
+  // Approvals and questions waiting for an answer, oldest first; several
+  // sessions can ask at once but the terminal answers one at a time
+  private pending: PendingPrompt[] = [];
+
+  constructor(cwd: string, verbose: boolean) {
+    super();
+    this.cwd = cwd;
+    this.verbose = verbose;
+  }
+
+  async connect(): Promise<void> {
+    this.rl = createInterface({
+      input: process.stdin,
+      output: process.stdout,
+      terminal: process.stdin.isTTY ?? false,
+    });
+    this.rl.on('line', (line) => this.handleLine(line.trim()));
+    this.rl.on('close', () => {
+      // Piped input ends before Claude answers; keep running until SIGINT
+      log.info('stdin closed');
+      this.rl = null;
+    });
+
+    this.print(`Kernel REPL ready. /help for commands.`);
+    this.emit('ready');
+  }
+
+  async disconnect(): Promise<void> {
+    this.rl?.close();
+  }
+
+  private handleLine(line: string): void {
+    if (!line) {
+      this.prompt();
+      return;
+    }
+
+    const pending = this.pending[0];
+    if (pending) {
+      if (!pending.accepts || pending.accepts(line)) {
+        pending.settle(line);
+      } else {
+        this.print(pending.hint ?? 'Not a valid answer');
+      }
+      return;
+    }
+
+    if (line === '/help') {
+      this.print(HELP);
+      return;
+    }
+    if (line === '/quit') {
+      process.kill(process.pid, 'SIGINT');
+      return;
+    }
+    if (line === '/main') {
+      this.threadId = undefined;
+      this.prompt();
+      return;
+    }
+    if (line.startsWith('/thread')) {
+      const id = line.split(/\s+/)[1];
+      if (!id) {
+        this.print('Usage: /thread <id>');
+        return;
+      }
+      this.threadId = id;
+      this.prompt();
+      return;
+    }
+
+    const message: ChatMessage = {
+      id: String(this.nextId++),
+      content: line,
+      authorId: 'cli',
+      authorName: this.author,
+      level: 'admin',
+      threadId: this.threadId,
+      attachments: [],
+    };
+    this.emit('message', message);
+  }
+
+  private prompt(): void {
+    if (!this.rl) return;
+    this.rl.setPrompt(this.threadId ? `thread:${this.threadId}> ` : '> ');
+    this.rl.prompt(true);
+  }
+
+  /**
+   * Write whole lines above the prompt
+   */
+  private print(text: string): void {
+    if (process.stdout.isTTY) {
+      clearLine(process.stdout, 0);
+      cursorTo(process.stdout, 0);
+    }
+    if (this.midLine) {
+      process.stdout.write('\n');
+      this.midLine = false;
+    }
+    process.stdout.write(text + '\n');
+    this.prompt();
+  }
+
+  /**
+   * Append streamed text without ending the line
+   */
+  private stream(text: string): void {
+    if (text.length === 0) return;
+    process.stdout.write(text);
+    this.midLine = !text.endsWith('\n');
+  }
+
+  async send(channelType: ChannelType, content: string): Promise<string[]> {
+    if (channelType === 'verbose' && !this.verbose) return [];
+    this.print(channelType === 'chat' ? `💬 ${content}` : `[${channelType}] ${content}`);
+    return [];
+  }
+
+  async sendThread(threadId: string, content: string): Promise<string[]> {
+    this.print(`💬 [thread:${threadId}] ${content}`);
+    return [];
+  }
+
+  async sendToChannel(channel: string, content: string, files: OutgoingFile[] = []): Promise<boolean> {
+    if (!this.verbose) return true;
+    const attached = files.length ? ` (attached: ${files.map(file => file.name).join(', ')})` : '';
+    this.print(`[route:${channel}] ${content}${attached}`);
+    return true;
+  }
+
+  async postMessage(channelType: ChannelType, content: string): Promise<SentMessage | null> {
+    if (channelType === 'verbose' && !this.verbose) return null;
+
+    // Edits only ever append while streaming; print the new part
+    let shown = '';
+    const show = (next: string) => {
+      const text = streamedText(next);
+      if (text.startsWith(shown)) {
+        this.stream(text.slice(shown.length));
+      } else {
+        this.print('');
+        this.stream(text);
+      }
+      shown = text;
+    };
+
+    if (this.midLine) this.print('');
+    show(content);
+    return { edit: async (next: string) => show(next) };
+  }
+
+  async postRich(channelType: ChannelType, message: RichMessage): Promise<SentRichMessage | null> {
+    if (channelType === 'verbose' && !this.verbose) return null;
+
+    const show = (rich: RichMessage) => {
+      const files = rich.files?.length ? `\n(attached: ${rich.files.map(file => file.name).join(', ')})` : '';
+      this.print(`[${channelType}] ${rich.title}${rich.footer ? `  (${rich.footer})` : ''}\n${rich.description}${files}`);
+    };
+    show(message);
+    return { update: async (next) => show(next) };
+  }
+
+  async sendVerbose(label: string, data: unknown): Promise<void> {
+    if (!this.verbose) return;
+    const json = JSON.stringify(data);
+    this.print(`[verbose] ${label} ${json.length > 300 ? json.substring(0, 300) + '...' : json}`);
+  }
+
+  async sendImage(channelType: ChannelType, imageData: Buffer | string, filename = 'screenshot.png', caption?: string): Promise<void> {
+    const data = typeof imageData === 'string' ? Buffer.from(imageData, 'base64') : imageData;
+    await this.sendImages(channelType, [{ name: filename, data }], caption);
+  }
+
+  async sendImages(channelType: ChannelType, images: OutgoingFile[], caption?: string): Promise<void> {
+    const dir = join(this.cwd, SCREENSHOTS_DIR);
+    try {
+      mkdirSync(dir, { recursive: true });
+      const paths = images.map((image) => {
+        const path = join(SCREENSHOTS_DIR, `${Date.now()}-${image.name}`);
+        writeFileSync(join(this.cwd, path), image.data);
+        return path;
+      });
+      this.print(`[${channelType}] ${caption ?? ''} ${paths.join(', ')}`.trim());
+    } catch (error) {
+      log.error('Failed to save images', error);
+    }
+  }
+
+  async sendTyping(): Promise<void> {
+    // Streamed output already shows that Claude is working
+  }
+
+  async react(message: ChatMessage, emoji: string): Promise<void> {
+    this.print(`  ${emoji} #${message.id}`);
+  }
+
+  /**
+   * Ask at the prompt; the next line typed answers instead of being sent
+   */
+  async requestApproval(request: ApprovalRequest, threadId?: string): Promise<ApprovalDecision | null> {
+    const deadline = Date.now() + request.timeoutMs;
+    const input = JSON.stringify(request.input, null, 2);
+    const decisions: Record<string, ApprovalDecision> = { y: 'allow', a: 'allow_session', n: 'deny' };
+
+    const line = await this.ask({
+      text: () => [
+        `🔐 Permission requested${threadId ? ` (thread:${threadId})` : ''}: ${request.toolName}`,
+        request.reason ? `Rule: ${request.reason}` : null,
+        input.length > 1500 ? input.substring(0, 1500) + '\n...' : input,
+        `Approve? y (yes), a (for this session), n (no). Defaults to ${request.defaultDecision} in ${secondsLeft(deadline)}s`,
+      ].filter(Boolean).join('\n'),
+      accepts: line => line[0].toLowerCase() in decisions,
+      hint: 'Answer y (approve), a (approve for session) or n (deny)',
+      expired: `⌛ Timed out, ${request.defaultDecision === 'allow' ? 'approved' : 'denied'} by default`,
+    }, deadline);
+    return line === null ? null : decisions[line[0].toLowerCase()];
+  }
+
+  /**
+   * Ask Claude's questions one at a time. An answer is option numbers
+   * (several comma-separated when allowed) or free text.
+   */
+  async askQuestions(request: QuestionRequest, threadId?: string): Promise<QuestionAnswers> {
+    const deadline = Date.now() + request.timeoutMs;
+    const answers: QuestionAnswers = {};
+
+    for (const question of request.questions) {
+      const fallback = request.defaultAnswer ?? question.options[0]?.label ?? '';
+      const line = await this.ask({
+        text: () => [
+          `❓ ${threadId ? `(thread:${threadId}) ` : ''}${question.header}: ${question.question}`,
+          ...question.options.map((option, i) => `  ${i + 1}. ${option.label}${option.description ? ` - ${option.description}` : ''}`),
+          `Answer with ${question.multiSelect ? 'option numbers (e.g. 1,3)' : 'an option number'} or your own text. Defaults to ${fallback} in ${secondsLeft(deadline)}s`,
+        ].join('\n'),
+        expired: `⌛ Timed out, using ${fallback}`,
+      }, deadline);
+      if (line === null) break;
+
+      const picked = /^\d+(\s*,\s*\d+)*$/.test(line)
+        ? line.split(',').map(n => question.options[parseInt(n, 10) - 1]?.label)
+        : [];
+      const valid = picked.length > 0 && picked.every(Boolean) && (question.multiSelect || picked.length === 1);
+      answers[question.question] = valid ? picked.join(', ') : line;
+    }
+    return answers;
+  }
+
+  /**
+   * Queue a prompt behind any already waiting and resolve with the line
+   * that answers it, or null at the deadline. Each prompt is shown once it
+   * reaches the front, so a typed line always answers the one on screen.
+   */
+  private ask(prompt: Omit<PendingPrompt, 'settle'>, deadline: number): Promise<string | null> {
+    return new Promise((resolve) => {
+      const entry: PendingPrompt = {
+        ...prompt,
+        settle: (line) => {
+          clearTimeout(timer);
+          const wasShown = this.pending[0] === entry;
+          this.pending = this.pending.filter(pending => pending !== entry);
+          if (line === null) {
+            // Name a prompt that timed out before it was shown
+            this.print(wasShown ? entry.expired : `${entry.text().split('\n')[0]}\n${entry.expired}`);
+          }
+          if (wasShown && this.pending.length > 0) this.print(this.pending[0].text());
+          resolve(line);
+        },
+      };
+      const timer = setTimeout(() => entry.settle(null), Math.max(0, deadline - Date.now()));
+
+      this.pending.push(entry);
+      if (this.pending.length === 1) this.print(entry.text());
+    });
+  }
+}
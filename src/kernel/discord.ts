@@ -1,24 +1,85 @@
 import {
   Client,
   GatewayIntentBits,
+  Partials,
   TextChannel,
+  ThreadChannel,
   Message,
   Events,
   AttachmentBuilder,
+  EmbedBuilder,
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  StringSelectMenuBuilder,
+  ComponentType,
+  MessageFlags,
+  type Channel,
+  type Interaction,
+  type MessageReaction,
+  type PartialMessageReaction,
+  type User,
+  type PartialUser,
+  type RESTPostAPIChatInputApplicationCommandsJSONBody,
 } from 'discord.js';
-import { config } from '../config.js';
-import { ChannelType } from '../types.js';
+import { requireDiscordConfig, type DiscordConfig } from '../config.js';
+import type {
+  ChannelType,
+  ApprovalRequest,
+  ApprovalDecision,
+  AccessLevel,
+  QuestionRequest,
+  QuestionAnswers,
+  UserQuestion,
+} from '../types.js';
+import type {
+  ChatTransport,
+  ChatMessage,
+  CommandRegistration,
+  RichMessage,
+  SentRichMessage,
+  OutgoingFile,
+} from './transport.js';
 import { EventEmitter } from 'events';
+import { chunkMessage } from './message-chunks.js';
+import { createLogger } from './logger.js';
+import { resolveAccessLevel, hasAccess } from './access.js';
 
-const DISCORD_MAX_LENGTH = 2000;
+const log = createLogger('discord');
 
-export class DiscordClient extends EventEmitter {
+/**
+ * Embed and attachments for a transport-neutral rich message
+ */
+function toEmbedPayload(message: RichMessage): { embeds: EmbedBuilder[]; files: AttachmentBuilder[] } {
+  const embed = new EmbedBuilder()
+    .setTitle(message.title)
+    .setDescription(message.description);
+  if (message.color !== undefined) embed.setColor(message.color);
+  if (message.footer) embed.setFooter({ text: message.footer });
+
+  return {
+    embeds: [embed],
+    files: (message.files ?? []).map(file => new AttachmentBuilder(file.data, { name: file.name })),
+  };
+}
+
+/**
+ * Discord transport: the chat channel and its threads carry prompts, the
+ * other configured channels receive output, and slash commands run through
+ * the registered handler.
+ */
+export class DiscordClient extends EventEmitter implements ChatTransport {
   private client: Client;
+  private settings: DiscordConfig;
   private channels: Map<ChannelType, TextChannel> = new Map();
+  // Discord messages behind the ChatMessages we emitted, for reactions
+  private sources: WeakMap<ChatMessage, Message> = new WeakMap();
   private ready = false;
+  private commands: CommandRegistration | null = null;
 
   constructor() {
     super();
+    this.settings = requireDiscordConfig();
     this.client = new Client({
       intents: [
         GatewayIntentBits.Guilds,
@@ -26,6 +87,8 @@ export class DiscordClient extends EventEmitter {
         GatewayIntentBits.MessageContent,
         GatewayIntentBits.GuildMessageReactions,
       ],
+      // Reactions on messages sent before the last restart arrive uncached
+      partials: [Partials.Message, Partials.Reaction],
     });
 
     this.setupEventHandlers();
@@ -33,9 +96,12 @@ export class DiscordClient extends EventEmitter {
 
   private setupEventHandlers(): void {
     this.client.once(Events.ClientReady, async (readyClient) => {
-      console.log(`Discord bot logged in as ${readyClient.user.tag}`);
+      log.info(`Discord bot logged in as ${readyClient.user.tag}`);
       await this.fetchChannels();
       this.ready = true;
+      if (this.commands) {
+        await this.setCommands(this.commands.commands);
+      }
       this.emit('ready');
     });
 
@@ -43,31 +109,36 @@ export class DiscordClient extends EventEmitter {
       this.handleMessage(message);
     });
 
+    this.client.on(Events.MessageReactionAdd, (reaction, user) => {
+      this.handleReaction(reaction, user).catch((error) => {
+        log.error('Failed to handle reaction', error);
+      });
+    });
+
+    this.client.on(Events.InteractionCreate, (interaction) => {
+      this.handleInteraction(interaction);
+    });
+
     this.client.on(Events.Error, (error) => {
-      console.error('Discord client error:', error);
+      log.error('Discord client error', error);
       this.emit('error', error);
     });
   }
 
   private async fetchChannels(): Promise<void> {
-    const channelIds: [ChannelType, string][] = [
-      ['chat', config.discordChannelChat],
-      ['verbose', config.discordChannelVerbose],
-      ['text', config.discordChannelText],
-      ['screenshots', config.discordChannelScreenshots],
-    ];
+    const channelIds = Object.entries(this.settings.channels) as [ChannelType, string][];
 
     for (const [type, id] of channelIds) {
       try {
         const channel = await this.client.channels.fetch(id);
         if (channel instanceof TextChannel) {
           this.channels.set(type, channel);
-          console.log(`Fetched channel ${type}: #${channel.name}`);
+          log.info(`Fetched channel ${type}: #${channel.name}`);
         } else {
-          console.error(`Channel ${id} (${type}) is not a text channel`);
+          log.error(`Channel ${id} (${type}) is not a text channel`);
         }
       } catch (error) {
-        console.error(`Failed to fetch channel ${id} (${type}):`, error);
+        log.error(`Failed to fetch channel ${id} (${type})`, error);
       }
     }
   }
@@ -76,24 +147,139 @@ export class DiscordClient extends EventEmitter {
     // Ignore bot messages
     if (message.author.bot) return;
 
-    // Only respond to owner
-    if (message.author.id !== config.discordOwnerId) {
-      console.log(`Ignoring message from non-owner: ${message.author.tag}`);
+    // Only allowlisted users with prompt access talk to Claude
+    const level = resolveAccessLevel(message.author.id, message.member);
+    if (level === null || !hasAccess(level, 'prompt')) {
+      log.info(`Ignoring message from ${message.author.tag} (access: ${level ?? 'none'})`);
+      return;
+    }
+
+    const chatChannel = this.channels.get('chat');
+    if (!chatChannel) {
+      return;
+    }
+
+    // Threads started from the chat channel each get their own session
+    const inThread = message.channel.isThread() && message.channel.parentId === chatChannel.id;
+
+    // Otherwise only respond in chat channel
+    if (!inThread && message.channel.id !== chatChannel.id) {
+      return;
+    }
+
+    this.emit('message', this.toChatMessage(message, level, inThread ? message.channel.id : undefined));
+  }
+
+  private async handleReaction(
+    reaction: MessageReaction | PartialMessageReaction,
+    user: User | PartialUser
+  ): Promise<void> {
+    if (user.bot) return;
+
+    const chatChannel = this.channels.get('chat');
+    const channel = reaction.message.channel;
+    const inThread = channel.isThread() && channel.parentId === chatChannel?.id;
+    if (!chatChannel || (!inThread && channel.id !== chatChannel.id)) return;
+
+    const member = await reaction.message.guild?.members.fetch(user.id).catch(() => null) ?? null;
+    const level = resolveAccessLevel(user.id, member);
+    if (level === null) return;
+
+    this.emit('reaction', {
+      messageId: reaction.message.id,
+      emoji: reaction.emoji.name ?? '',
+      userId: user.id,
+      level,
+      threadId: inThread ? channel.id : undefined,
+    });
+  }
+
+  private toChatMessage(message: Message, level: AccessLevel, threadId?: string): ChatMessage {
+    const chat: ChatMessage = {
+      id: message.id,
+      content: message.content,
+      authorId: message.author.id,
+      authorName: message.member?.displayName ?? message.author.username,
+      level,
+      threadId,
+      attachments: [...message.attachments.values()].map((attachment) => ({
+        name: attachment.name,
+        size: attachment.size,
+        contentType: attachment.contentType,
+        download: async () => {
+          const response = await fetch(attachment.url);
+          if (!response.ok) {
+            throw new Error(`download failed with HTTP ${response.status}`);
+          }
+          return Buffer.from(await response.arrayBuffer());
+        },
+      })),
+    };
+    this.sources.set(chat, message);
+    return chat;
+  }
+
+  private handleInteraction(interaction: Interaction): void {
+    if (!interaction.isChatInputCommand()) return;
+
+    // Only allowlisted users can use commands; each command checks its own level
+    const level = resolveAccessLevel(interaction.user.id, interaction.member);
+    if (level === null) {
+      log.info(`Ignoring command from non-allowlisted user: ${interaction.user.tag}`);
+      interaction.reply({
+        content: 'You are not allowed to control the kernel.',
+        flags: MessageFlags.Ephemeral,
+      }).catch(() => {});
+      return;
+    }
+
+    // Commands used inside a chat thread target that thread's session
+    const chatChannel = this.channels.get('chat');
+    const channel = interaction.channel;
+    const threadId = channel?.isThread() && chatChannel && channel.parentId === chatChannel.id
+      ? channel.id
+      : undefined;
+
+    if (!this.commands) {
+      log.warn(`No handler for /${interaction.commandName}`);
       return;
     }
+    this.commands.handle(interaction, level, threadId).catch((error) => {
+      log.error(`Failed to handle /${interaction.commandName}`, error);
+    });
+  }
+
+  /**
+   * Use these slash commands, registering them once the client is ready
+   */
+  registerCommands(registration: CommandRegistration): void {
+    this.commands = registration;
+    if (this.ready) {
+      void this.setCommands(registration.commands);
+    }
+  }
 
-    // Only respond in chat channel
+  /**
+   * Register slash commands in the guild that owns the chat channel
+   * (guild commands update instantly, unlike global ones)
+   */
+  private async setCommands(commands: RESTPostAPIChatInputApplicationCommandsJSONBody[]): Promise<void> {
     const chatChannel = this.channels.get('chat');
-    if (!chatChannel || message.channel.id !== chatChannel.id) {
+    if (!chatChannel || !this.client.application) {
+      log.error('Cannot register slash commands: chat channel or application not available');
       return;
     }
 
-    // Emit message event for orchestrator to handle
-    this.emit('message', message.content, message);
+    try {
+      await this.client.application.commands.set(commands, chatChannel.guildId);
+      log.info(`Registered ${commands.length} slash command(s)`);
+    } catch (error) {
+      log.error('Failed to register slash commands', error);
+    }
   }
 
   async connect(): Promise<void> {
-    await this.client.login(config.discordBotToken);
+    await this.client.login(this.settings.botToken);
   }
 
   async disconnect(): Promise<void> {
@@ -107,27 +293,128 @@ export class DiscordClient extends EventEmitter {
   /**
    * React to a message with an emoji
    */
-  async react(message: Message, emoji: string): Promise<void> {
+  async react(message: ChatMessage, emoji: string): Promise<void> {
+    const source = this.sources.get(message);
+    if (!source) return;
+
+    try {
+      await source.react(emoji);
+    } catch (error) {
+      log.error(`Failed to react with ${emoji}`, error);
+    }
+  }
+
+  /**
+   * Show the typing indicator, which Discord clears after about ten seconds
+   */
+  async sendTyping(threadId?: string): Promise<void> {
+    const channel = threadId ? await this.fetchThread(threadId) : this.channels.get('chat');
     try {
-      await message.react(emoji);
+      await channel?.sendTyping();
     } catch (error) {
-      console.error(`Failed to react with ${emoji}:`, error);
+      log.debug('Failed to send typing indicator', error);
     }
   }
 
   /**
    * Send a message to a specific channel type, handling chunking for long messages
    */
-  async send(channelType: ChannelType, content: string): Promise<void> {
+  async send(channelType: ChannelType, content: string): Promise<string[]> {
     const channel = this.channels.get(channelType);
     if (!channel) {
-      console.error(`Channel ${channelType} not available`);
-      return;
+      log.error(`Channel ${channelType} not available`);
+      return [];
+    }
+
+    const ids: string[] = [];
+    for (const chunk of chunkMessage(content)) {
+      ids.push((await channel.send(chunk)).id);
+    }
+    return ids;
+  }
+
+  /**
+   * Post a single message (must fit Discord's limit) and return it so it
+   * can be edited later, e.g. for live-updating responses
+   */
+  async postMessage(channelType: ChannelType, content: string): Promise<Message | null> {
+    const channel = this.channels.get(channelType);
+    if (!channel) {
+      log.error(`Channel ${channelType} not available`);
+      return null;
+    }
+    return channel.send(content);
+  }
+
+  /**
+   * Post a rich message as an embed; updating it edits the same message
+   */
+  async postRich(channelType: ChannelType, message: RichMessage): Promise<SentRichMessage | null> {
+    const channel = this.channels.get(channelType);
+    if (!channel) {
+      log.error(`Channel ${channelType} not available`);
+      return null;
+    }
+
+    const sent = await channel.send(toEmbedPayload(message));
+    return {
+      update: async (next) => {
+        const payload = toEmbedPayload(next);
+        // Editing with files replaces the message's attachments, so only
+        // pass them when the update carries any
+        await sent.edit(payload.files.length > 0 ? payload : { embeds: payload.embeds });
+      },
+    };
+  }
+
+  /**
+   * Send a message into a thread, handling chunking for long messages
+   */
+  async sendThread(threadId: string, content: string): Promise<string[]> {
+    const thread = await this.fetchThread(threadId);
+    if (!thread) {
+      log.error(`Thread ${threadId} not available`);
+      return [];
     }
 
-    const chunks = this.chunkMessage(content);
-    for (const chunk of chunks) {
-      await channel.send(chunk);
+    const ids: string[] = [];
+    for (const chunk of chunkMessage(content)) {
+      ids.push((await thread.send(chunk)).id);
+    }
+    return ids;
+  }
+
+  /**
+   * Send a single message (must fit Discord's limit) to a configured channel
+   * type or any channel the bot can see, by ID
+   */
+  async sendToChannel(channelRef: string, content: string, files: OutgoingFile[] = []): Promise<boolean> {
+    let channel: Channel | null | undefined = this.channels.get(channelRef as ChannelType);
+    if (!channel) {
+      if (!/^\d+$/.test(channelRef)) return false;
+      try {
+        channel = await this.client.channels.fetch(channelRef);
+      } catch (error) {
+        log.error(`Failed to fetch channel ${channelRef}`, error);
+        return false;
+      }
+    }
+    if (!channel?.isSendable()) return false;
+
+    await channel.send({
+      content,
+      files: files.map(({ data, name }) => new AttachmentBuilder(data, { name })),
+    });
+    return true;
+  }
+
+  private async fetchThread(threadId: string): Promise<ThreadChannel | null> {
+    try {
+      const channel = await this.client.channels.fetch(threadId);
+      return channel instanceof ThreadChannel ? channel : null;
+    } catch (error) {
+      log.error(`Failed to fetch thread ${threadId}`, error);
+      return null;
     }
   }
 
@@ -153,71 +440,178 @@ export class DiscordClient extends EventEmitter {
   }
 
   /**
-   * Send an image (from base64 or buffer) to a specific channel
+   * Post an Approve/Deny prompt for a tool call and wait for an admin's click.
+   * Posts in the thread for thread sessions, otherwise the chat channel.
+   * Resolves null if nobody answers within the request's timeout.
    */
-  async sendImage(
-    channelType: ChannelType,
-    imageData: Buffer | string,
-    filename = 'screenshot.png',
-    message?: string
-  ): Promise<void> {
-    const channel = this.channels.get(channelType);
+  async requestApproval(request: ApprovalRequest, threadId?: string): Promise<ApprovalDecision | null> {
+    const channel = threadId ? await this.fetchThread(threadId) : this.channels.get('chat');
     if (!channel) {
-      console.error(`Channel ${channelType} not available`);
-      return;
+      log.error(`Cannot request approval: ${threadId ? `thread ${threadId}` : 'chat channel'} not available`);
+      return null;
     }
 
+    const input = JSON.stringify(request.input, null, 2);
+    const preview = input.length > 1500 ? input.substring(0, 1500) + '\n...' : input;
+    const content = [
+      `🔐 **Permission requested:** \`${request.toolName}\``,
+      request.reason ? `Rule: ${request.reason}` : null,
+      `\`\`\`json\n${preview}\n\`\`\``,
+      `_Defaults to **${request.defaultDecision}** in ${Math.round(request.timeoutMs / 1000)}s_`,
+    ].filter(Boolean).join('\n');
+
+    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder().setCustomId('allow').setLabel('Approve').setStyle(ButtonStyle.Success),
+      new ButtonBuilder().setCustomId('allow_session').setLabel('Approve for session').setStyle(ButtonStyle.Primary),
+      new ButtonBuilder().setCustomId('deny').setLabel('Deny').setStyle(ButtonStyle.Danger),
+    );
+
+    const labels: Record<ApprovalDecision, string> = {
+      allow: '✅ Approved',
+      allow_session: '✅ Approved for this session',
+      deny: '⛔ Denied',
+    };
+
     try {
-      let buffer: Buffer;
-      if (typeof imageData === 'string') {
-        // Assume base64
-        buffer = Buffer.from(imageData, 'base64');
-      } else {
-        buffer = imageData;
-      }
+      const prompt = await channel.send({ content, components: [row] });
 
-      const attachment = new AttachmentBuilder(buffer, { name: filename });
-      await channel.send({
-        content: message || '',
-        files: [attachment],
-      });
+      try {
+        const interaction = await prompt.awaitMessageComponent({
+          componentType: ComponentType.Button,
+          filter: (i) => hasAccess(resolveAccessLevel(i.user.id, i.member), 'admin'),
+          time: request.timeoutMs,
+        });
+        const decision = interaction.customId as ApprovalDecision;
+        await interaction.update({ content: `${content}\n\n${labels[decision]}`, components: [] });
+        return decision;
+      } catch {
+        // awaitMessageComponent rejects when the timeout elapses
+        await prompt.edit({
+          content: `${content}\n\n⌛ Timed out, ${request.defaultDecision === 'allow' ? 'approved' : 'denied'} by default`,
+          components: [],
+        });
+        return null;
+      }
     } catch (error) {
-      console.error(`Failed to send image to ${channelType}:`, error);
+      log.error('Failed to request approval', error);
+      return null;
     }
   }
 
   /**
-   * Chunk a message into parts that fit Discord's limit
+   * Post each of Claude's questions with its options as buttons, or a select
+   * menu when several can be picked. Questions are answered independently;
+   * those still open when the timeout runs out are left out of the answers.
    */
-  private chunkMessage(content: string): string[] {
-    if (content.length <= DISCORD_MAX_LENGTH) {
-      return [content];
+  async askQuestions(request: QuestionRequest, threadId?: string): Promise<QuestionAnswers> {
+    const channel = threadId ? await this.fetchThread(threadId) : this.channels.get('chat');
+    if (!channel) {
+      log.error(`Cannot ask questions: ${threadId ? `thread ${threadId}` : 'chat channel'} not available`);
+      return {};
     }
 
-    const chunks: string[] = [];
-    let remaining = content;
-
-    while (remaining.length > 0) {
-      if (remaining.length <= DISCORD_MAX_LENGTH) {
-        chunks.push(remaining);
-        break;
+    const deadline = Date.now() + request.timeoutMs;
+    const answers: QuestionAnswers = {};
+    await Promise.all(request.questions.map(async (question) => {
+      const answer = await this.askQuestion(channel, question, request, deadline);
+      if (answer !== null) {
+        answers[question.question] = answer;
       }
+    }));
+    return answers;
+  }
 
-      // Try to break at a newline
-      let breakPoint = remaining.lastIndexOf('\n', DISCORD_MAX_LENGTH);
-      if (breakPoint === -1 || breakPoint < DISCORD_MAX_LENGTH / 2) {
-        // No good newline, try space
-        breakPoint = remaining.lastIndexOf(' ', DISCORD_MAX_LENGTH);
-      }
-      if (breakPoint === -1 || breakPoint < DISCORD_MAX_LENGTH / 2) {
-        // No good break point, just cut
-        breakPoint = DISCORD_MAX_LENGTH;
+  private async askQuestion(
+    channel: TextChannel | ThreadChannel,
+    question: UserQuestion,
+    request: QuestionRequest,
+    deadline: number
+  ): Promise<string | null> {
+    const fallback = request.defaultAnswer ?? question.options[0]?.label ?? '';
+    const content = [
+      `❓ **${question.header}:** ${question.question}`,
+      ...question.options.map(option => `- **${option.label}**${option.description ? `: ${option.description}` : ''}`),
+      `_Defaults to **${fallback}** in ${Math.round(request.timeoutMs / 1000)}s_`,
+    ].join('\n');
+
+    // Component labels are capped at 80 (buttons) and 100 (select options) characters
+    const row = question.multiSelect
+      ? new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+        new StringSelectMenuBuilder()
+          .setCustomId('answer')
+          .setPlaceholder('Pick one or more')
+          .setMinValues(1)
+          .setMaxValues(question.options.length)
+          .addOptions(question.options.map((option, i) => ({
+            label: option.label.substring(0, 100),
+            description: option.description ? option.description.substring(0, 100) : undefined,
+            value: String(i),
+          })))
+      )
+      : new ActionRowBuilder<ButtonBuilder>().addComponents(
+        question.options.map((option, i) =>
+          new ButtonBuilder().setCustomId(String(i)).setLabel(option.label.substring(0, 80)).setStyle(ButtonStyle.Primary)
+        )
+      );
+
+    try {
+      const prompt = await channel.send({ content, components: [row] });
+
+      try {
+        const interaction = await prompt.awaitMessageComponent({
+          filter: (i) => hasAccess(resolveAccessLevel(i.user.id, i.member), 'prompt'),
+          time: Math.max(1, deadline - Date.now()),
+        });
+        const picked = interaction.isStringSelectMenu() ? interaction.values : [interaction.customId];
+        const answer = picked.map(value => question.options[Number(value)]?.label).filter(Boolean).join(', ');
+        await interaction.update({ content: `${content}\n\n✅ ${answer}`, components: [] });
+        return answer;
+      } catch {
+        // awaitMessageComponent rejects when the timeout elapses
+        await prompt.edit({ content: `${content}\n\n⌛ Timed out, using **${fallback}**`, components: [] });
+        return null;
       }
+    } catch (error) {
+      log.error('Failed to ask question', error);
+      return null;
+    }
+  }
+
+  /**
+   * Send an image (from base64 or buffer) to a specific channel
+   */
+  async sendImage(
+    channelType: ChannelType,
+    imageData: Buffer | string,
+    filename = 'screenshot.png',
+    message?: string
+  ): Promise<void> {
+    // Assume base64 for strings
+    const data = typeof imageData === 'string' ? Buffer.from(imageData, 'base64') : imageData;
+    await this.sendImages(channelType, [{ data, name: filename }], message);
+  }
 
-      chunks.push(remaining.slice(0, breakPoint));
-      remaining = remaining.slice(breakPoint).trimStart();
+  /**
+   * Send several images as attachments of one message (Discord allows up to 10)
+   */
+  async sendImages(
+    channelType: ChannelType,
+    images: OutgoingFile[],
+    message?: string
+  ): Promise<void> {
+    const channel = this.channels.get(channelType);
+    if (!channel) {
+      log.error(`Channel ${channelType} not available`);
+      return;
     }
 
-    return chunks;
+    try {
+      await channel.send({
+        content: message || '',
+        files: images.map(({ data, name }) => new AttachmentBuilder(data, { name })),
+      });
+    } catch (error) {
+      log.error(`Failed to send image(s) to ${channelType}`, error);
+    }
   }
 }
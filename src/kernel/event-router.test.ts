@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, utimesSync } from 'fs';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { EventRouter, type RoutedEvent } from './event-router.js';
+import { queryLogs } from './logger.js';
+import { FakeTransport, waitFor } from '../test/fake-transport.js';
+
+let cwd: string;
+let transport: FakeTransport;
+let router: EventRouter;
+// Events shown by the built-in channel presenters, as "<channel>:<kind>"
+let shown: string[];
+
+function writeRoutes(routes: unknown, bumpMtime = false): void {
+  const path = join(cwd, '.kernel-routes.json');
+  writeFileSync(path, typeof routes === 'string' ? routes : JSON.stringify({ routes }));
+  if (bumpMtime) {
+    // Make sure the change is visible even within the file system's timestamp resolution
+    utimesSync(path, new Date(), new Date(Date.now() + 5000));
+  }
+}
+
+function result(text: string): RoutedEvent {
+  return { kind: 'result', session: 'main', text };
+}
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), 'routes-test-'));
+  transport = new FakeTransport();
+  transport.knownChannels.add('555');
+  router = new EventRouter(cwd, transport);
+  shown = [];
+  for (const channel of ['chat', 'verbose']) {
+    router.present(channel, {
+      result: async (event) => {
+        shown.push(`${channel}:${event.kind}`);
+        return channel === 'chat' ? ['msg-1'] : undefined;
+      },
+    });
+  }
+});
+
+afterEach(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+describe('EventRouter', () => {
+  it('should use the default routes without a config file', async () => {
+    expect(await router.route(result('done'))).toEqual(['msg-1']);
+    expect(shown).toEqual(['chat:result', 'verbose:result']);
+
+    // Kinds a built-in channel has no presenter for get a plain message
+    await router.route({ kind: 'error', session: '42', text: 'boom' });
+    await waitFor(() => transport.routed.length === 2, 2000, 'plain error messages');
+    expect(transport.routed).toEqual([
+      { channel: 'chat', content: '🧵 <#42> **Error:** boom', files: [] },
+      { channel: 'verbose', content: '🧵 <#42> **Error:** boom', files: [] },
+    ]);
+    expect(router.routesTo('text', 'text')).toBe(true);
+  });
+
+  it('should let routes replace or turn off defaults and add their own', async () => {
+    writeRoutes([
+      { id: 'verbose', disabled: true },
+      { id: 'chat', events: ['result'], match: '*important*', to: ['chat'] },
+      { events: ['result'], to: ['channel:555'] },
+    ]);
+
+    expect(await router.route(result('routine'))).toEqual([]);
+    expect(await router.route(result('important news'))).toEqual(['msg-1']);
+    expect(shown).toEqual(['chat:result']);
+    await waitFor(() => transport.routed.length === 2, 2000, 'channel messages');
+    expect(transport.routed.map(entry => entry.content)).toEqual(['**Result:**\nroutine', '**Result:**\nimportant news']);
+    expect(router.routesTo('stateChange', 'verbose')).toBe(false);
+  });
+
+  it('should keep the previous routes when the file is invalid, and reload on change', async () => {
+    writeRoutes([{ id: 'chat', disabled: true }]);
+    await router.route(result('one'));
+    expect(shown).toEqual(['verbose:result']);
+
+    writeRoutes([{ events: ['result'], to: ['nowhere'] }], true);
+    await router.route(result('two'));
+    expect(shown).toEqual(['verbose:result', 'verbose:result']);
+
+    writeRoutes('{ "routes": [', true);
+    await router.route(result('three'));
+    expect(shown).toHaveLength(3);
+
+    writeRoutes([{ id: 'verbose', disabled: true }], true);
+    await router.route(result('four'));
+    expect(shown).toEqual(['verbose:result', 'verbose:result', 'verbose:result', 'chat:result']);
+
+    // Removing the file restores the defaults
+    rmSync(join(cwd, '.kernel-routes.json'));
+    await router.route(result('five'));
+    expect(shown.slice(4)).toEqual(['chat:result', 'verbose:result']);
+  });
+
+  it('should send to channels by ID and skip unavailable ones', async () => {
+    writeRoutes([{ events: ['tool_use'], tools: ['mcp__*'], to: ['channel:404', 'channel:555'] }]);
+
+    await router.route({ kind: 'tool_use', session: 'main', text: '{}', tool: 'Bash', toolUseId: 't1' });
+    await router.route({ kind: 'tool_use', session: 'main', text: '{"url":"x"}', tool: 'mcp__playwright__navigate', toolUseId: 't2' });
+
+    await waitFor(() => transport.routed.some(entry => entry.channel === '555'), 2000, 'routed tool call');
+    expect(transport.routed.filter(entry => entry.channel === '555')).toEqual([
+      { channel: '555', content: '🔧 **mcp__playwright__navigate**\n```json\n{"url":"x"}\n```', files: [] },
+    ]);
+  });
+
+  it('should post events and their files to webhooks', async () => {
+    const bodies: string[] = [];
+    const server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        bodies.push(body);
+        res.writeHead(204).end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      writeRoutes([{ id: 'screenshots', events: ['image'], to: [`webhook:http://127.0.0.1:${port}/hook`] }]);
+      await router.route({ kind: 'image', session: 'main', text: 'captured', files: [{ name: 'shot.png', data: Buffer.from('png') }] });
+
+      await waitFor(() => bodies.length === 1, 2000, 'webhook post');
+      expect(bodies[0]).toContain('"content":"captured"');
+      expect(bodies[0]).toContain('"allowed_mentions":{"parse":[]}');
+      expect(bodies[0]).toContain('filename="shot.png"');
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it('should keep webhook tokens out of the logs', async () => {
+    const server = createServer((req, res) => {
+      req.resume();
+      req.on('end', () => res.writeHead(500).end());
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      writeRoutes([
+        { events: ['result'], to: [`webhook:http://127.0.0.1:${port}/api/webhooks/1234/secret-token`] },
+        { events: ['result'], to: [`webhook:http://127.0.0.1:${port}/hook?token=secret-token`] },
+      ]);
+      await router.route(result('done'));
+
+      const warnings = () => queryLogs({ level: 'warn', search: 'Failed to deliver result' });
+      await waitFor(() => warnings().length === 2, 2000, 'delivery warnings');
+      const logged = JSON.stringify(warnings());
+      expect(logged).toContain('webhook:…/1234');
+      expect(logged).not.toContain('secret-token');
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it('should shorten long tool output inside its code fence', async () => {
+    writeRoutes([{ events: ['tool_result'], to: ['channel:555'] }]);
+
+    await router.route({ kind: 'tool_result', session: 'main', text: 'x'.repeat(5000), toolUseId: 't1' });
+    await waitFor(() => transport.routed.some(entry => entry.channel === '555'), 2000, 'routed result');
+    const { content } = transport.routed.find(entry => entry.channel === '555')!;
+    expect(content.length).toBeLessThanOrEqual(2000);
+    expect(content.endsWith('…\n```')).toBe(true);
+  });
+
+  it('should name tool results after their call until the query ends', async () => {
+    writeRoutes([{ events: ['tool_result'], to: ['channel:555'] }]);
+
+    await router.route({ kind: 'tool_use', session: 'main', text: '{}', tool: 'Bash', toolUseId: 't1' });
+    await router.route({ kind: 'tool_result', session: 'main', text: 'ok', toolUseId: 't1' });
+
+    // An interrupted query leaves t2 without a result
+    await router.route({ kind: 'tool_use', session: 'main', text: '{}', tool: 'Read', toolUseId: 't2' });
+    await router.route({ kind: 'stateChange', session: 'main', text: 'idle' });
+    await router.route({ kind: 'tool_result', session: 'main', text: 'late', toolUseId: 't2' });
+
+    const routed = () => transport.routed.filter(entry => entry.channel === '555');
+    await waitFor(() => routed().length === 2, 2000, 'routed results');
+    expect(routed().map(entry => entry.content.split('\n')[0])).toEqual(['📤 **Bash** result', '📤 **Tool** result']);
+  });
+});
@@ -0,0 +1,318 @@
+import { readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { z } from 'zod';
+import { createLogger } from './logger.js';
+import { matchesPattern } from './permissions.js';
+import type { ChatTransport, OutgoingFile } from './transport.js';
+
+const log = createLogger('routes');
+
+const ROUTES_FILE = '.kernel-routes.json';
+// Discord rejects message content longer than this
+const DISCORD_CONTENT_MAX = 2000;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+const eventKindSchema = z.enum(['text', 'tool_use', 'tool_result', 'result', 'error', 'stateChange', 'image']);
+
+const routeSchema = z.object({
+  // A route with a default route's ID replaces it
+  id: z.string().min(1).optional(),
+  events: z.array(eventKindSchema).min(1),
+  // "chat", "verbose", "text", "screenshots", "channel:<id>" or "webhook:<url>"
+  to: z.array(z.string().regex(/^(chat|verbose|text|screenshots|channel:\d+|webhook:https?:\/\/\S+)$/, 'must be a channel name, channel:<id> or webhook:<url>')).min(1),
+  // Tool name patterns; routes with tools only match tool_use and tool_result
+  tools: z.array(z.string().min(1)).optional(),
+  // Pattern the event text must match (glob over the whole text, or /regex/flags)
+  match: z.string().min(1).optional(),
+  // Cut the event text to this many characters
+  maxLength: z.number().int().positive().optional(),
+});
+
+// Turns off the default route with this ID
+const disabledRouteSchema = z.object({
+  id: z.string().min(1),
+  disabled: z.literal(true),
+}).strict();
+
+const routesSchema = z.object({
+  routes: z.array(z.union([disabledRouteSchema, routeSchema])).default([]),
+});
+
+export type EventKind = z.infer<typeof eventKindSchema>;
+export type Route = z.infer<typeof routeSchema>;
+type ConfiguredRoute = z.infer<typeof routesSchema>['routes'][number];
+
+/**
+ * Where events go without a .kernel-routes.json: results and errors reply in
+ * the chat (or the session's thread), assistant text streams into the text
+ * channel with a line for tool calls, everything is logged to verbose, and
+ * tool result images go to screenshots.
+ */
+export const DEFAULT_ROUTES: Route[] = [
+  { id: 'chat', events: ['result', 'error'], to: ['chat'] },
+  { id: 'text', events: ['text', 'tool_use'], to: ['text'] },
+  { id: 'verbose', events: ['text', 'tool_use', 'tool_result', 'result', 'error', 'stateChange'], to: ['verbose'] },
+  { id: 'screenshots', events: ['image'], to: ['screenshots'] },
+];
+
+/**
+ * Something the kernel did, as offered to the routing config
+ */
+export interface RoutedEvent {
+  kind: EventKind;
+  // 'main' or a thread ID
+  session: string;
+  text: string;
+  tool?: string;
+  // Tool call ID of tool_use and tool_result events, which names a result's tool
+  toolUseId?: string;
+  files?: OutgoingFile[];
+  // What the event came from (tool call, tool result, Error), for presenters
+  data?: unknown;
+}
+
+/**
+ * Shows one kind of event in a built-in channel in that channel's own way.
+ * Resolves with the IDs of any chat messages it posted.
+ */
+export type Presenter = (event: RoutedEvent) => Promise<string[] | void>;
+
+export type ChannelPresenters = Partial<Record<EventKind, Presenter>>;
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.substring(0, max - 1) + '…' : text;
+}
+
+/**
+ * Message content for an event: thread events name their thread, and
+ * tool calls and results are fenced. The text is cut to maxLength and to
+ * whatever fits around it, so a closing fence is never cut off.
+ */
+function formatEvent(event: RoutedEvent, maxLength = DISCORD_CONTENT_MAX): string {
+  const room = DISCORD_CONTENT_MAX - wrapEvent(event, '').length;
+  return wrapEvent(event, truncate(event.text, Math.max(1, Math.min(maxLength, room))));
+}
+
+function wrapEvent(event: RoutedEvent, text: string): string {
+  const thread = event.session === 'main' ? '' : `🧵 <#${event.session}> `;
+
+  switch (event.kind) {
+    case 'tool_use':
+      return `${thread}🔧 **${event.tool}**\n\`\`\`json\n${text}\n\`\`\``;
+    case 'tool_result':
+      return `${thread}📤 **${event.tool ?? 'Tool'}** result\n\`\`\`\n${text}\n\`\`\``;
+    case 'result':
+      return `${thread}**Result:**\n${text}`;
+    case 'error':
+      return `${thread}**Error:** ${text}`;
+    case 'stateChange':
+      return `${thread}State: **${text}**`;
+    default:
+      return thread + text;
+  }
+}
+
+/**
+ * A target as it may appear in logs. Webhook URLs carry their token, so
+ * only the webhook ID (the path segment before the token) is kept.
+ */
+function describeTarget(target: string): string {
+  if (!target.startsWith('webhook:')) return target;
+  try {
+    const segments = new URL(target.slice('webhook:'.length)).pathname.split('/').filter(Boolean);
+    return segments.length >= 2 ? `webhook:…/${segments[segments.length - 2]}` : 'webhook:…';
+  } catch {
+    return 'webhook:…';
+  }
+}
+
+function routeMatches(route: Route, event: RoutedEvent): boolean {
+  if (!route.events.includes(event.kind)) return false;
+  if (route.tools && !(event.tool && route.tools.some(pattern => matchesPattern(pattern, event.tool)))) return false;
+  if (route.match && !matchesPattern(route.match, event.text)) return false;
+  return true;
+}
+
+/**
+ * Routes from the config file: a route with a default's ID replaces that
+ * default in place, a disabled one removes it, and the rest come after
+ */
+function resolveRoutes(configured: ConfiguredRoute[]): Route[] {
+  const byId = new Map(configured.filter(route => route.id).map(route => [route.id, route]));
+  const defaults = DEFAULT_ROUTES.flatMap((route) => {
+    const override = byId.get(route.id);
+    if (!override) return [route];
+    return 'disabled' in override ? [] : [override];
+  });
+  const extra = configured.filter(
+    (route): route is Route => !('disabled' in route) && !DEFAULT_ROUTES.some(({ id }) => id === route.id)
+  );
+  return [...defaults, ...extra];
+}
+
+/**
+ * Decides where every kernel event goes, starting from DEFAULT_ROUTES and
+ * applying .kernel-routes.json, which is re-read whenever it changes.
+ * Built-in channels show events through their presenters (live text, tool
+ * embeds, replies in a thread); other targets, and event kinds a channel
+ * has no presenter for, get a plain message. Delivery failures are logged
+ * and never block the kernel.
+ */
+export class EventRouter {
+  private filePath: string;
+  private transport: ChatTransport;
+  private routes: Route[] = DEFAULT_ROUTES;
+  private presenters: Map<string, ChannelPresenters> = new Map();
+  // mtime of the loaded file (0 = no file)
+  private loadedMtime = 0;
+  // Targets already reported as unavailable
+  private warned: Set<string> = new Set();
+  // Tool calls waiting for their result, until their session's query ends
+  private toolNames: Map<string, { tool: string; session: string }> = new Map();
+
+  constructor(cwd: string, transport: ChatTransport) {
+    this.filePath = join(cwd, ROUTES_FILE);
+    this.transport = transport;
+  }
+
+  /**
+   * Reload the routes if the file changed. An invalid file keeps the
+   * previous routes.
+   */
+  private refresh(): void {
+    let mtime = 0;
+    try {
+      mtime = statSync(this.filePath).mtimeMs;
+    } catch {
+      // No routing config
+    }
+    if (mtime === this.loadedMtime) return;
+    this.loadedMtime = mtime;
+
+    if (mtime === 0) {
+      this.routes = DEFAULT_ROUTES;
+      log.info(`${ROUTES_FILE} removed, using the default routes`);
+      return;
+    }
+
+    try {
+      const result = routesSchema.safeParse(JSON.parse(readFileSync(this.filePath, 'utf-8')));
+      if (!result.success) {
+        log.error(`Invalid ${ROUTES_FILE}, keeping the previous routes:`);
+        for (const error of result.error.errors) {
+          log.error(`  - ${error.path.join('.')}: ${error.message}`);
+        }
+        return;
+      }
+      this.routes = resolveRoutes(result.data.routes);
+      this.warned.clear();
+      log.info(`Loaded ${result.data.routes.length} route(s) from ${ROUTES_FILE}`);
+    } catch (error) {
+      log.error(`Failed to load ${ROUTES_FILE}, keeping the previous routes`, error);
+    }
+  }
+
+  /**
+   * Show events of the given kinds in a built-in channel
+   */
+  present(channel: string, presenters: ChannelPresenters): void {
+    this.presenters.set(channel, presenters);
+  }
+
+  /**
+   * Whether a route currently sends this kind of event to a target, whatever
+   * its text; used to stream text before the whole block is known
+   */
+  routesTo(kind: EventKind, target: string): boolean {
+    this.refresh();
+    return this.routes.some(route => route.events.includes(kind) && route.to.includes(target));
+  }
+
+  /**
+   * Deliver an event to every matching route's targets. Presenters run in
+   * route order and are awaited; resolves with the chat message IDs they
+   * posted. Plain messages and webhooks are sent in the background.
+   */
+  async route(event: RoutedEvent): Promise<string[]> {
+    event = this.trackTools(event);
+
+    this.refresh();
+    const ids: string[] = [];
+    for (const route of this.routes) {
+      if (!routeMatches(route, event)) continue;
+
+      const routed = route.maxLength ? { ...event, text: truncate(event.text, route.maxLength) } : event;
+      for (const target of route.to) {
+        const presenter = this.presenters.get(target)?.[event.kind];
+        if (presenter) {
+          try {
+            ids.push(...(await presenter(routed)) ?? []);
+          } catch (error) {
+            log.error(`Failed to show ${event.kind} in ${target}`, error);
+          }
+          continue;
+        }
+
+        this.deliver(target, formatEvent(event, route.maxLength), event.files ?? []).catch((error) => {
+          this.warn(target, `Failed to deliver ${event.kind} to ${describeTarget(target)}`, error);
+        });
+      }
+    }
+    return ids;
+  }
+
+  /**
+   * Name tool results after their call, and forget a session's open calls
+   * once its query ends (interrupted calls never get a result)
+   */
+  private trackTools(event: RoutedEvent): RoutedEvent {
+    const { toolUseId } = event;
+    if (toolUseId && event.kind === 'tool_use' && event.tool) {
+      this.toolNames.set(toolUseId, { tool: event.tool, session: event.session });
+    } else if (toolUseId && event.kind === 'tool_result') {
+      const call = this.toolNames.get(toolUseId);
+      this.toolNames.delete(toolUseId);
+      return { ...event, tool: event.tool ?? call?.tool };
+    } else if (event.kind === 'stateChange' && event.text === 'idle') {
+      for (const [id, call] of this.toolNames) {
+        if (call.session === event.session) this.toolNames.delete(id);
+      }
+    }
+    return event;
+  }
+
+  private async deliver(target: string, content: string, files: OutgoingFile[]): Promise<void> {
+    if (target.startsWith('webhook:')) {
+      await this.sendWebhook(target.slice('webhook:'.length), content, files);
+      return;
+    }
+
+    const channel = target.startsWith('channel:') ? target.slice('channel:'.length) : target;
+    if (!(await this.transport.sendToChannel(channel, content, files))) {
+      this.warn(target, `Route target ${describeTarget(target)} is not available`);
+    }
+  }
+
+  private async sendWebhook(url: string, content: string, files: OutgoingFile[]): Promise<void> {
+    const form = new FormData();
+    form.append('payload_json', JSON.stringify({ content, allowed_mentions: { parse: [] } }));
+    files.forEach((file, i) => form.append(`files[${i}]`, new Blob([file.data]), file.name));
+
+    const response = await fetch(url, { method: 'POST', body: form, signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`Webhook answered ${response.status} ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Log a delivery problem once per target until the routes are reloaded.
+   * Errors can quote a webhook's URL, so it is masked there too.
+   */
+  private warn(target: string, message: string, error?: unknown): void {
+    if (this.warned.has(target)) return;
+    this.warned.add(target);
+    const detail = error instanceof Error ? error.message : error;
+    const url = target.startsWith('webhook:') ? target.slice('webhook:'.length) : null;
+    log.warn(message, url && typeof detail === 'string' ? detail.split(url).join(describeTarget(target)) : detail);
+  }
+}
@@ -1,3 +1,18 @@
 export { DiscordClient } from './discord.js';
-export { Orchestrator } from './orchestrator.js';
+export { CliTransport } from './cli-transport.js';
+export type { ChatTransport, ChatMessage, ChatAttachment, SentMessage, RichMessage, SentRichMessage, OutgoingFile } from './transport.js';
+export { Orchestrator, type QueryProvider } from './orchestrator.js';
+export { Kernel } from './kernel.js';
 export { MCPServer } from './mcp-server.js';
+export { MessageQueue } from './message-queue.js';
+export { ThreadSessionManager } from './thread-sessions.js';
+export { SlashCommandHandler, SLASH_COMMANDS } from './slash-commands.js';
+export { LiveMessage } from './live-message.js';
+export { createLogger, configureLogger, queryLogs } from './logger.js';
+export { UsageTracker } from './usage.js';
+export { isSupervised, requestRestart, notifyReady, getRestartInfo } from './supervisor-ipc.js';
+export { resolveAccessLevel, hasAccess } from './access.js';
+export { SessionHistory } from './session-history.js';
+export { Scheduler } from './scheduler.js';
+export { ScreenshotBatcher, extractImages } from './screenshots.js';
+export { ToolEventLog } from './tool-embeds.js';
@@ -0,0 +1,930 @@
+import { relative } from 'path';
+import { Orchestrator, type QueryProvider } from './orchestrator.js';
+import { MCPServer } from './mcp-server.js';
+import { ThreadSessionManager } from './thread-sessions.js';
+import { SlashCommandHandler, SLASH_COMMANDS, formatDuration } from './slash-commands.js';
+import { LiveMessage } from './live-message.js';
+import { ScreenshotBatcher } from './screenshots.js';
+import { ToolEventLog } from './tool-embeds.js';
+import { prepareAttachments, withFileReferences } from './attachments.js';
+import { UsageTracker, BUDGET_REFUSED, type BudgetOptions } from './usage.js';
+import { SessionHistory } from './session-history.js';
+import { Scheduler } from './scheduler.js';
+import { TranscriptStore, toolResultText } from './transcripts.js';
+import { EventRouter, type RoutedEvent } from './event-router.js';
+import { appendNote, type PinnedResult } from './notes.js';
+import { hasAccess } from './access.js';
+import type { ChatTransport, ChatMessage, ChatReaction } from './transport.js';
+import type { PromptImage, AccessLevel, ScheduledPrompt, UserQuestion, QuestionAnswers, OrchestratorEvents } from '../types.js';
+import { config, type McpToken } from '../config.js';
+import { createLogger } from './logger.js';
+import { getRestartInfo, notifyReady } from './supervisor-ipc.js';
+
+const log = createLogger('kernel');
+
+// Reaction emojis
+const EMOJI = {
+  WORKING: '🤖',      // Started working on task
+  INTERRUPT: '🔄',    // Interrupting current task
+  DONE: '✅',         // Task completed
+  ERROR: '❌',        // Error occurred
+  QUEUED: '📋',       // Message queued (fallback if interrupt fails)
+  STEERED: '↪️',      // Added to the running task (steer mode)
+  FORCE: '⚡',        // Reaction from the user: interrupt and run this message now
+  STOP: '🛑',         // Reaction from the user: interrupt the message being worked on
+  RERUN: '🔁',        // Reaction from the user: run a finished or failed prompt again
+  PAUSE: '⏸️',        // Reaction from the user: stop starting queued messages
+  RESUME: '▶️',       // Reaction from the user: start queued messages again
+  PIN: '📌',          // Reaction from the user: append a result to the notes file
+};
+
+/**
+ * Compare emojis without variation selectors; Discord may report ⏸️ as ⏸
+ */
+function normalizeEmoji(emoji: string): string {
+  return emoji.replace(/\uFE0F/g, '');
+}
+
+// Access each reaction control needs
+const REACTION_LEVELS: Record<string, AccessLevel> = {
+  [normalizeEmoji(EMOJI.FORCE)]: 'prompt',
+  [normalizeEmoji(EMOJI.STOP)]: 'prompt',
+  [normalizeEmoji(EMOJI.RERUN)]: 'prompt',
+  [normalizeEmoji(EMOJI.PIN)]: 'prompt',
+  [normalizeEmoji(EMOJI.PAUSE)]: 'admin',
+  [normalizeEmoji(EMOJI.RESUME)]: 'admin',
+};
+
+// Prompts and results kept for reaction controls (the oldest are dropped first)
+const MAX_TRACKED_MESSAGES = 100;
+
+/**
+ * Add to a map, dropping its oldest entries beyond MAX_TRACKED_MESSAGES
+ */
+function remember<V>(map: Map<string, V>, key: string, value: V): void {
+  map.delete(key);
+  map.set(key, value);
+  for (const oldest of map.keys()) {
+    if (map.size <= MAX_TRACKED_MESSAGES) break;
+    map.delete(oldest);
+  }
+}
+
+type ToolCall = Parameters<OrchestratorEvents['tool_use']>[0];
+type ToolResult = Parameters<OrchestratorEvents['tool_result']>[0];
+
+// Shape of a tool result, logged to debug image extraction
+interface ToolResultDebugInfo {
+  id: string;
+  contentType: string;
+  isArray: boolean;
+  arrayLength?: number;
+  // Keys of each block (or its type if not an object)
+  blockTypes?: string[];
+  objectKeys?: string[];
+}
+
+// A prompt as sent to Claude, so it can be forced or re-run
+interface PromptRecord {
+  key: string;
+  message: ChatMessage;
+  prompt: string;
+  images: PromptImage[];
+}
+
+// In steer mode, messages starting with this interrupt instead of steering
+const FORCE_PREFIX = '!';
+
+// Key for the chat channel's session in per-session maps (threads use their ID)
+const MAIN_SESSION = 'main';
+
+// Discord shows "typing" for about ten seconds, so renew it a little sooner
+const TYPING_INTERVAL_MS = 8000;
+
+export interface KernelOptions {
+  transport: ChatTransport;
+  /** Working directory for sessions, queues and attachments */
+  cwd?: string;
+  /** Runs Claude queries instead of the Agent SDK */
+  queryProvider?: QueryProvider;
+  /** MCP server port (0 picks a free one) */
+  mcpPort?: number;
+  /** Bearer tokens accepted by the MCP server (default: MCP_TOKENS) */
+  mcpTokens?: McpToken[];
+  /** Add messages to a running query instead of interrupting it (default: STEER_MODE) */
+  steer?: boolean;
+  /** Interrupt queries without SDK activity for this long (default: QUERY_IDLE_TIMEOUT_MS) */
+  idleTimeoutMs?: number;
+  /** Same while a tool call is open (default: TOOL_IDLE_TIMEOUT_MS) */
+  toolIdleTimeoutMs?: number;
+  /** Post elapsed time and turns of running queries this often (default: PROGRESS_UPDATE_MS) */
+  progressUpdateMs?: number;
+  /** Daily spend limits (default: DAILY_BUDGET_SOFT_USD, DAILY_BUDGET_HARD_USD, BUDGET_HARD_ACTION) */
+  budget?: BudgetOptions;
+}
+
+/**
+ * Wires a chat transport to the orchestrators: routes messages, streams
+ * responses back, and runs the MCP server and slash commands.
+ */
+export class Kernel {
+  private transport: ChatTransport;
+  private orchestrator: Orchestrator;
+  private threads: ThreadSessionManager;
+  private usage: UsageTracker;
+  private history: SessionHistory;
+  private scheduler: Scheduler;
+  private transcripts: TranscriptStore;
+  private router: EventRouter;
+  private mcpServer: MCPServer;
+  private commands: SlashCommandHandler;
+  private cwd: string;
+  private mcpPort: number;
+  private steerMode: boolean;
+  private progressUpdateMs: number;
+  // Typing and progress timers of running queries, per session key
+  private heartbeats: Map<string, NodeJS.Timeout[]> = new Map();
+  private shuttingDown = false;
+  // Messages the running query is answering, oldest first (several when steered)
+  private currentMessages: Map<string, ChatMessage[]> = new Map();
+  // Recent prompts by chat message ID
+  private prompts: Map<string, PromptRecord> = new Map();
+  // Steered messages that a FORCE reaction can still turn into a fresh query
+  private steered: Set<string> = new Set();
+  // Recent results by the ID of the result message and of its prompt
+  private results: Map<string, PinnedResult> = new Map();
+  private liveMessages: Map<string, LiveMessage> = new Map();
+  // Tool calls in the verbose channel, one embed per call updated with its result
+  private toolLog = new ToolEventLog(
+    (message) => this.transport.postRich('verbose', message),
+    config.verboseAttachThreshold
+  );
+  // Images from tool results, routed (to the screenshots channel by default) per turn
+  private screenshots = new ScreenshotBatcher(async (key, { images, caption }) => {
+    await this.router.route({ kind: 'image', session: key, text: caption, files: images });
+  });
+
+  constructor(options: KernelOptions) {
+    this.transport = options.transport;
+    this.cwd = options.cwd ?? process.cwd();
+    this.mcpPort = options.mcpPort ?? config.mcpPort;
+    this.steerMode = options.steer ?? config.steerMode;
+    this.progressUpdateMs = options.progressUpdateMs ?? config.progressUpdateMs;
+    this.usage = new UsageTracker(this.cwd, options.budget ?? {
+      softUsd: config.dailyBudgetSoftUsd,
+      hardUsd: config.dailyBudgetHardUsd,
+      hardAction: config.budgetHardAction,
+    });
+    this.history = new SessionHistory(this.cwd);
+    this.scheduler = new Scheduler(this.cwd);
+    this.transcripts = new TranscriptStore(this.cwd);
+    this.router = new EventRouter(this.cwd, this.transport);
+    this.setupPresenters();
+    const shared = {
+      usage: this.usage,
+      history: this.history,
+      transcripts: this.transcripts,
+      queryProvider: options.queryProvider,
+      steer: this.steerMode,
+      idleTimeoutMs: options.idleTimeoutMs ?? config.queryIdleTimeoutMs,
+      toolIdleTimeoutMs: options.toolIdleTimeoutMs ?? config.toolIdleTimeoutMs,
+    };
+    this.orchestrator = new Orchestrator(this.cwd, shared);
+    this.threads = new ThreadSessionManager(this.cwd, config.maxConcurrentThreads, shared);
+    this.mcpServer = new MCPServer(this.orchestrator, this.transport, this.usage, this.history, this.scheduler, this.transcripts, options.mcpTokens);
+    this.commands = new SlashCommandHandler(this.mcpServer, this.usage, this.history);
+
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers(): void {
+    this.transport.on('ready', async () => {
+      log.info('Chat transport ready');
+      await this.reportStartup();
+      // Schedules that came due while the kernel was down fire now, so wait
+      // until their notices can be posted
+      this.scheduler.start();
+      this.usage.start();
+    });
+
+    // Slash commands control the kernel without going through Claude
+    this.transport.registerCommands?.({
+      commands: SLASH_COMMANDS,
+      handle: async (interaction, level, threadId) => {
+        const orchestrator = threadId ? await this.threads.get(threadId) : this.orchestrator;
+        await this.commands.handle(interaction, orchestrator, level);
+      },
+    });
+
+    // Message from an allowlisted user, in the chat channel or one of its threads
+    this.transport.on('message', async (message: ChatMessage) => {
+      log.info(`Received message: ${message.content.substring(0, 50)}...`);
+      log.info(`Message from: ${message.authorName} (${message.level})${message.threadId ? ` in thread: ${message.threadId}` : ''}`);
+      const orchestrator = message.threadId ? await this.threads.get(message.threadId) : this.orchestrator;
+      await this.dispatch(orchestrator, message);
+    });
+
+    this.transport.on('reaction', (reaction: ChatReaction) => {
+      this.handleReaction(reaction).catch((error) => {
+        log.error('Failed to handle reaction', error);
+      });
+    });
+
+    // Prompts Claude scheduled for itself
+    this.scheduler.on('fire', (schedule) => {
+      this.runSchedule(schedule).catch((error) => {
+        log.error(`Failed to run schedule ${schedule.id}`, error);
+      });
+    });
+
+    // Daily budget warnings go to the chat channel
+    this.usage.on('budget', async ({ kind, spentUsd, limitUsd }) => {
+      const spent = `$${spentUsd.toFixed(2)} of $${limitUsd.toFixed(2)}`;
+      try {
+        await this.transport.send('chat', kind === 'soft'
+          ? `⚠️ **Daily budget warning:** ${spent} spent today`
+          : `🛑 **Daily budget reached:** ${spent} spent today. New prompts are ${this.usage.budget.hardAction === 'queue' ? 'queued' : 'refused'} until \`/usage override:true\`.`);
+      } catch (error) {
+        log.error('Failed to post budget warning', error);
+      }
+    });
+
+    // Resume held prompts once the owner lifts the hard budget or the day ends
+    this.usage.on('override', () => this.releaseHeldPrompts('budget override'));
+    this.usage.on('newDay', () => this.releaseHeldPrompts('daily budget reset'));
+
+    // Thread orchestrators are created lazily, wire them up as they appear
+    this.threads.on('orchestrator', (threadId, orchestrator) => {
+      this.setupOrchestratorHandlers(orchestrator, threadId);
+    });
+
+    this.setupOrchestratorHandlers(this.orchestrator);
+  }
+
+  /**
+   * Start prompts the hard budget held in the queues
+   */
+  private releaseHeldPrompts(reason: string): void {
+    try {
+      this.orchestrator.processQueue().catch((error) => {
+        log.error(`Failed to process queue after ${reason}`, error);
+      });
+      this.threads.processWaiting();
+    } catch (error) {
+      log.error(`Failed to release held prompts after ${reason}`, error);
+    }
+  }
+
+  /**
+   * Route a user message to an orchestrator: start it, add it to the
+   * running task (steer mode), or interrupt the running task and start
+   * over. Thread sessions that would exceed the concurrency limit are
+   * queued instead.
+   */
+  private async dispatch(orchestrator: Orchestrator, message: ChatMessage): Promise<void> {
+    const { level, threadId } = message;
+    const key = threadId ?? MAIN_SESSION;
+    let content = message.content;
+
+    // Queue management commands are handled by the kernel, not sent to Claude
+    if (content.trim().startsWith('!queue')) {
+      await this.handleQueueCommand(content.trim(), orchestrator, level, threadId);
+      return;
+    }
+
+    // In steer mode a leading ! asks for the old interrupt-and-restart behaviour
+    const force = this.steerMode && content.startsWith(FORCE_PREFIX);
+    if (force) {
+      content = content.slice(FORCE_PREFIX.length).trimStart();
+    }
+
+    // Images go to Claude as content blocks, text files are saved for it to read
+    let prompt = content;
+    let images: PromptImage[] = [];
+    if (message.attachments.length > 0) {
+      const attachments = await prepareAttachments(message.attachments, this.cwd);
+      images = attachments.images;
+      prompt = withFileReferences(content, attachments.savedFiles);
+
+      if (attachments.rejected.length > 0) {
+        await this.transport.react(message, EMOJI.ERROR);
+        const lines = attachments.rejected.map(({ name, reason }) => `- \`${name}\`: ${reason}`);
+        await this.reply(threadId, `❌ **Skipped attachment(s):**\n${lines.join('\n')}`);
+      }
+
+      // Nothing usable left to send
+      if (!prompt.trim() && images.length === 0) {
+        return;
+      }
+    }
+
+    // Claude should know when a prompt comes from someone other than an admin
+    if (level !== 'admin') {
+      prompt = `[Message from ${message.authorName}] ${prompt}`;
+    }
+
+    const state = orchestrator.getState();
+    log.info(`Current orchestrator state (${key}): ${state}`);
+    remember(this.prompts, message.id, { key, message, prompt, images });
+
+    // Over the daily budget: hold or refuse the prompt, and leave a running
+    // query alone rather than steering into or interrupting it
+    if (this.usage.isBlocked()) {
+      const hold = this.usage.budget.hardAction === 'queue';
+      await this.transport.react(message, hold ? EMOJI.QUEUED : EMOJI.ERROR);
+      if (state === 'idle') {
+        // The orchestrator holds or refuses it
+        await orchestrator.send(prompt, images);
+      } else if (hold) {
+        orchestrator.queueMessage(prompt, images);
+      } else {
+        await this.reply(threadId, `**Error:** ${BUDGET_REFUSED}`);
+      }
+      return;
+    }
+
+    if (state === 'idle') {
+      // Thread sessions share a concurrency limit
+      if (threadId && !this.threads.hasCapacity()) {
+        log.info(`Thread limit reached, queueing message for thread ${threadId}`);
+        orchestrator.queueMessage(prompt, images);
+        await this.transport.react(message, EMOJI.QUEUED);
+        return;
+      }
+
+      // Start new task
+      this.currentMessages.set(key, [message]);
+      await this.transport.react(message, EMOJI.WORKING);
+      log.info('Sending message to orchestrator...');
+      try {
+        await orchestrator.send(prompt, images);
+        log.info('Orchestrator.send() completed');
+      } catch (err) {
+        log.error('Orchestrator.send() threw', err);
+        throw err;
+      }
+    } else if (this.steerMode && !force && orchestrator.steer(prompt, images)) {
+      // Steer: the running query answers this as its next turn
+      this.currentMessages.set(key, [...(this.currentMessages.get(key) ?? []), message]);
+      this.steered.add(message.id);
+      await this.transport.react(message, EMOJI.STEERED);
+    } else {
+      await this.interruptAndSend(orchestrator, key, message, prompt, images);
+    }
+  }
+
+  /**
+   * Interrupt the running task and start over with a new message
+   */
+  private async interruptAndSend(
+    orchestrator: Orchestrator,
+    key: string,
+    message: ChatMessage,
+    prompt: string,
+    images: PromptImage[]
+  ): Promise<void> {
+    await this.transport.react(message, EMOJI.INTERRUPT);
+
+    // Mark previous messages as interrupted (if we have them)
+    for (const previous of this.currentMessages.get(key) ?? []) {
+      if (previous !== message) {
+        await this.transport.react(previous, EMOJI.INTERRUPT);
+      }
+    }
+
+    this.currentMessages.set(key, [message]);
+    await orchestrator.interrupt();
+    await orchestrator.send(prompt, images);
+  }
+
+  /**
+   * Reactions as controls: FORCE on a steered message, STOP on the message
+   * being worked on, RERUN on an earlier prompt, PIN on a result, and
+   * PAUSE/RESUME anywhere in a session for its queue. Each confirms with a reply.
+   */
+  private async handleReaction(reaction: ChatReaction): Promise<void> {
+    const emoji = normalizeEmoji(reaction.emoji);
+    const required = REACTION_LEVELS[emoji];
+    if (!required) return;
+
+    const { threadId } = reaction;
+    if (!hasAccess(reaction.level, required)) {
+      await this.reply(threadId, `${reaction.emoji} needs ${required} access`);
+      return;
+    }
+
+    const key = threadId ?? MAIN_SESSION;
+    switch (emoji) {
+      case normalizeEmoji(EMOJI.FORCE):
+        return this.forceSteered(reaction.messageId);
+      case normalizeEmoji(EMOJI.STOP):
+        return this.stopMessage(key, reaction.messageId, threadId);
+      case normalizeEmoji(EMOJI.RERUN):
+        return this.rerunPrompt(reaction.messageId);
+      case normalizeEmoji(EMOJI.PIN):
+        return this.pinResult(reaction.messageId, threadId);
+      case normalizeEmoji(EMOJI.PAUSE): {
+        const orchestrator = threadId ? await this.threads.get(threadId) : this.orchestrator;
+        orchestrator.pauseQueue();
+        await this.reply(threadId, `${EMOJI.PAUSE} Queue paused (${orchestrator.getQueue().length} waiting). React ${EMOJI.RESUME} to resume.`);
+        return;
+      }
+      case normalizeEmoji(EMOJI.RESUME): {
+        const orchestrator = threadId ? await this.threads.get(threadId) : this.orchestrator;
+        orchestrator.resumeQueue();
+        await this.reply(threadId, `${EMOJI.RESUME} Queue resumed (${orchestrator.getQueue().length} waiting)`);
+        this.processQueue(threadId);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Interrupt the running query and run a steered message on its own
+   */
+  private async forceSteered(messageId: string): Promise<void> {
+    const entry = this.prompts.get(messageId);
+    if (!entry || !this.steered.delete(messageId)) return;
+
+    const orchestrator = entry.key === MAIN_SESSION ? this.orchestrator : await this.threads.get(entry.key);
+    if (orchestrator.getState() !== 'running') return;
+
+    log.info(`Forcing steered message ${messageId} to run on its own`);
+    await this.interruptAndSend(orchestrator, entry.key, entry.message, entry.prompt, entry.images);
+  }
+
+  /**
+   * Interrupt the running query if it is working on this message
+   */
+  private async stopMessage(key: string, messageId: string, threadId?: string): Promise<void> {
+    const current = this.currentMessages.get(key) ?? [];
+    if (!current.some(message => message.id === messageId)) return;
+
+    const orchestrator = threadId ? await this.threads.get(threadId) : this.orchestrator;
+    log.info(`Interrupting ${key} from a reaction on ${messageId}`);
+    for (const message of current) {
+      this.steered.delete(message.id);
+    }
+    this.currentMessages.delete(key);
+    await orchestrator.interrupt();
+    await this.reply(threadId, `${EMOJI.STOP} Interrupted`);
+  }
+
+  /**
+   * Send an earlier prompt again, or queue it if its session is busy
+   */
+  private async rerunPrompt(messageId: string): Promise<void> {
+    const entry = this.prompts.get(messageId);
+    if (!entry) return;
+
+    const { key, message, prompt, images } = entry;
+    const threadId = message.threadId;
+    if (this.currentMessages.get(key)?.includes(message)) {
+      await this.reply(threadId, `${EMOJI.RERUN} That prompt is still running`);
+      return;
+    }
+
+    const orchestrator = threadId ? await this.threads.get(threadId) : this.orchestrator;
+    const preview = message.content.length > 100 ? message.content.substring(0, 100) + '...' : message.content;
+    if (orchestrator.getState() !== 'idle' || (threadId && !this.threads.hasCapacity())) {
+      const item = orchestrator.queueMessage(prompt, images);
+      await this.reply(threadId, `${EMOJI.RERUN} Queued a re-run (\`${item.id}\`): ${preview}`);
+      return;
+    }
+
+    log.info(`Re-running prompt from message ${messageId}`);
+    this.currentMessages.set(key, [message]);
+    await this.reply(threadId, `${EMOJI.RERUN} Re-running: ${preview}`);
+    await orchestrator.send(prompt, images);
+  }
+
+  /**
+   * Append a result to the notes file
+   */
+  private async pinResult(messageId: string, threadId?: string): Promise<void> {
+    const result = this.results.get(messageId);
+    if (!result) return;
+
+    const path = appendNote(this.cwd, result);
+    log.info(`Pinned result to ${path}`);
+    await this.reply(threadId, `${EMOJI.PIN} Saved to \`${relative(this.cwd, path)}\``);
+  }
+
+  /**
+   * How the built-in channels show the events routed to them. Thread
+   * sessions reply in their thread and are labelled elsewhere.
+   */
+  private setupPresenters(): void {
+    const threadOf = (event: RoutedEvent) => event.session === MAIN_SESSION ? undefined : event.session;
+    const label = (name: string, event: RoutedEvent) => event.session === MAIN_SESSION ? name : `${name} [thread ${event.session}]`;
+
+    this.router.present('chat', {
+      result: (event) => this.reply(threadOf(event), `**Result:**\n${event.text}`),
+      // Kernel notices (a stalled query) are not SDK errors
+      error: (event) => this.reply(threadOf(event), event.data instanceof Error ? `**Error:** ${event.text}` : `${EMOJI.ERROR} ${event.text}`),
+    });
+
+    this.router.present('text', {
+      text: async (event) => this.liveMessage(event.session, threadOf(event)).appendBlock(event.text),
+      tool_use: async (event) => this.liveMessage(event.session, threadOf(event)).addTool(event.tool ?? 'tool'),
+    });
+
+    this.router.present('verbose', {
+      text: (event) => this.transport.sendVerbose(label('assistant.text', event), {
+        text: event.text.substring(0, 200) + (event.text.length > 200 ? '...' : '')
+      }),
+      // One embed per tool call, completed by its result
+      tool_use: async (event) => this.toolLog.toolUse(event.data as ToolCall, label('tool', event)),
+      tool_result: (event) => this.toolLog.toolResult(event.data as ToolResult),
+      result: (event) => this.transport.sendVerbose(label('result', event), { result: event.text }),
+      error: (event) => this.transport.sendVerbose(label('error', event), {
+        message: event.text,
+        stack: event.data instanceof Error ? event.data.stack : undefined,
+      }),
+      stateChange: (event) => this.transport.sendVerbose(label('stateChange', event), { state: event.text }),
+    });
+
+    this.router.present('screenshots', {
+      image: async (event) => {
+        const header = event.session === MAIN_SESSION ? '' : `🧵 <#${event.session}> `;
+        await this.transport.sendImages('screenshots', event.files ?? [], header + event.text);
+      },
+    });
+  }
+
+  /**
+   * Wire orchestrator events to the router, which decides which channels,
+   * threads and webhooks show them (see setupPresenters and .kernel-routes.json)
+   */
+  private setupOrchestratorHandlers(orchestrator: Orchestrator, threadId?: string): void {
+    const key = threadId ?? MAIN_SESSION;
+
+    // Tools the permission policy marks "ask" are approved through the transport
+    orchestrator.setApprovalHandler((request) => this.transport.requestApproval(request, threadId));
+    orchestrator.setQuestionHandler((questions) => this.askQuestions(questions, threadId));
+
+    orchestrator.on('text_delta', (delta) => {
+      // Streams ahead of the text event, wherever text is shown live
+      if (this.router.routesTo('text', 'text')) {
+        this.liveMessage(key, threadId).appendDelta(delta);
+      }
+    });
+
+    orchestrator.on('text', async (text) => {
+      // New assistant output ends the previous turn's screenshots
+      await this.screenshots.flush(key);
+      await this.router.route({ kind: 'text', session: key, text });
+    });
+
+    orchestrator.on('tool_use', async (tool) => {
+      this.screenshots.noteToolUse(tool.id, tool.name);
+      await this.screenshots.flush(key);
+      await this.router.route({
+        kind: 'tool_use',
+        session: key,
+        text: JSON.stringify(tool.input, null, 2),
+        tool: tool.name,
+        toolUseId: tool.id,
+        data: tool,
+      });
+    });
+
+    orchestrator.on('tool_result', async (result) => {
+      // Debug logging for tool results
+      const content = result.content;
+      const debugInfo: ToolResultDebugInfo = {
+        id: result.id,
+        contentType: typeof content,
+        isArray: Array.isArray(content),
+      };
+
+      if (Array.isArray(content)) {
+        debugInfo.arrayLength = content.length;
+        debugInfo.blockTypes = content.map((block: unknown) =>
+          block && typeof block === 'object' ? Object.keys(block).join(',') : typeof block
+        );
+      } else if (typeof content === 'object' && content !== null) {
+        debugInfo.objectKeys = Object.keys(content);
+      }
+
+      log.info('Tool result received', debugInfo);
+
+      // Images (computer-use, Playwright, ...) are routed per turn
+      const images = this.screenshots.add(key, result.id, result.content);
+      if (images > 0) {
+        log.info(`Found ${images} new image(s) in tool result ${result.id}`);
+      }
+
+      await this.router.route({ kind: 'tool_result', session: key, text: toolResultText(result.content), toolUseId: result.id, data: result });
+    });
+
+    orchestrator.on('result', async (result) => {
+      await this.screenshots.flush(key);
+      await this.finishLiveMessage(key);
+      // Steered messages are answered in order
+      const current = this.currentMessages.get(key)?.shift();
+
+      const ids = await this.router.route({ kind: 'result', session: key, text: result });
+
+      // Either message can be pinned
+      const pinned: PinnedResult = { prompt: current?.content ?? null, result, threadId };
+      for (const id of current ? [...ids, current.id] : ids) {
+        remember(this.results, id, pinned);
+      }
+
+      if (current) {
+        this.steered.delete(current.id);
+        await this.transport.react(current, EMOJI.DONE);
+      }
+    });
+
+    orchestrator.on('error', async (error) => {
+      log.error('Orchestrator error', error);
+      await this.screenshots.flush(key);
+      await this.finishLiveMessage(key);
+      await this.router.route({ kind: 'error', session: key, text: error.message, data: error });
+
+      // React with error emoji
+      for (const current of this.currentMessages.get(key) ?? []) {
+        this.steered.delete(current.id);
+        await this.transport.react(current, EMOJI.ERROR);
+      }
+      this.currentMessages.delete(key);
+    });
+
+    // The orchestrator interrupts the query right after this
+    orchestrator.on('stalled', async (progress) => {
+      const idle = formatDuration(Date.now() - progress.lastEventAt);
+      const tool = progress.lastTool
+        ? progress.toolRunning ? ` while \`${progress.lastTool}\` was running` : ` (last tool: \`${progress.lastTool}\`)`
+        : '';
+      const notice = `No activity for ${idle}${tool}, interrupted the query`;
+
+      const current = this.currentMessages.get(key) ?? [];
+      this.currentMessages.delete(key);
+      await this.router.route({ kind: 'error', session: key, text: notice });
+      for (const message of current) {
+        this.steered.delete(message.id);
+        await this.transport.react(message, EMOJI.ERROR);
+      }
+    });
+
+    orchestrator.on('stateChange', async (state) => {
+      log.info(`State changed to: ${state}${threadId ? ` (thread ${threadId})` : ''}`);
+      if (state === 'running') {
+        this.startHeartbeat(orchestrator, key, threadId);
+      }
+      // Interrupted turns end without a result
+      if (state === 'idle') {
+        this.stopHeartbeat(key);
+        // Nothing left to force once the query has ended
+        for (const id of this.steered) {
+          if (this.prompts.get(id)?.key === key) this.steered.delete(id);
+        }
+        await this.screenshots.flush(key);
+        await this.finishLiveMessage(key);
+      }
+      await this.router.route({ kind: 'stateChange', session: key, text: state });
+    });
+  }
+
+  /**
+   * Show typing while a query runs and post its elapsed time and turns every
+   * progressUpdateMs
+   */
+  private startHeartbeat(orchestrator: Orchestrator, key: string, threadId?: string): void {
+    this.stopHeartbeat(key);
+    const typing = () => void this.transport.sendTyping(threadId);
+    typing();
+    const timers = [setInterval(typing, TYPING_INTERVAL_MS)];
+
+    if (this.progressUpdateMs > 0) {
+      timers.push(setInterval(() => {
+        const progress = orchestrator.getProgress();
+        if (!progress) return;
+        const turns = `${progress.turns} turn${progress.turns === 1 ? '' : 's'}`;
+        const tool = progress.toolRunning ? ` · running \`${progress.lastTool}\`` : '';
+        void this.reply(threadId, `⏳ Still working · ${formatDuration(Date.now() - progress.startedAt)} · ${turns}${tool}`);
+      }, this.progressUpdateMs));
+    }
+    this.heartbeats.set(key, timers);
+  }
+
+  private stopHeartbeat(key: string): void {
+    for (const timer of this.heartbeats.get(key) ?? []) {
+      clearInterval(timer);
+    }
+    this.heartbeats.delete(key);
+  }
+
+  /**
+   * Put Claude's questions to the owner, then fill in the configured default
+   * for any left unanswered when the timeout ran out
+   */
+  private async askQuestions(questions: UserQuestion[], threadId?: string): Promise<QuestionAnswers> {
+    const defaultAnswer = config.questionDefaultAnswer ?? null;
+    const answers = await this.transport.askQuestions({ questions, timeoutMs: config.questionTimeoutMs, defaultAnswer }, threadId);
+    for (const question of questions) {
+      answers[question.question] ??= defaultAnswer ?? question.options[0]?.label ?? '';
+    }
+    return answers;
+  }
+
+  /**
+   * Get the live text-channel message for a session's current turn
+   */
+  private liveMessage(key: string, threadId?: string): LiveMessage {
+    let live = this.liveMessages.get(key);
+    if (!live) {
+      live = new LiveMessage(
+        (content) => this.transport.postMessage('text', content),
+        threadId ? `🧵 <#${threadId}>\n` : ''
+      );
+      this.liveMessages.set(key, live);
+    }
+    return live;
+  }
+
+  private async finishLiveMessage(key: string): Promise<void> {
+    const live = this.liveMessages.get(key);
+    if (live) {
+      this.liveMessages.delete(key);
+      await live.finish();
+    }
+  }
+
+  /**
+   * Reply in the chat channel, or in a thread for thread sessions.
+   * Resolves with the posted message IDs.
+   */
+  private async reply(threadId: string | undefined, content: string): Promise<string[]> {
+    return threadId
+      ? this.transport.sendThread(threadId, content)
+      : this.transport.send('chat', content);
+  }
+
+  /**
+   * Start a session's next queued message if it can run. Threads go through
+   * the thread manager, which respects the concurrency limit.
+   */
+  private processQueue(threadId?: string): void {
+    if (threadId) {
+      this.threads.processWaiting();
+    } else {
+      this.orchestrator.processQueue().catch((error) => {
+        log.error('Failed to process queue', error);
+      });
+    }
+  }
+
+  /**
+   * Queue a scheduled prompt for its session and say in the chat (or its
+   * thread) that Claude scheduled it
+   */
+  private async runSchedule(schedule: ScheduledPrompt): Promise<void> {
+    const { threadId } = schedule;
+    const orchestrator = threadId ? await this.threads.get(threadId) : this.orchestrator;
+
+    const when = schedule.cron ? `cron \`${schedule.cron}\`` : 'one-shot';
+    const preview = schedule.prompt.length > 200 ? schedule.prompt.substring(0, 200) + '...' : schedule.prompt;
+    await this.reply(threadId, `⏰ **Self-scheduled prompt** \`${schedule.id}\` (${when})\n${preview.split('\n').map(line => `> ${line}`).join('\n')}`);
+
+    orchestrator.queueMessage(`[Scheduled prompt ${schedule.id}] ${schedule.prompt}`);
+    this.processQueue(threadId);
+  }
+
+  /**
+   * Handle `!queue` commands:
+   *   !queue              - list pending messages
+   *   !queue drop <n|id>  - remove a pending message
+   *   !queue next <n|id>  - move a pending message to the front
+   */
+  private async handleQueueCommand(
+    content: string,
+    orchestrator: Orchestrator,
+    level: AccessLevel,
+    threadId?: string
+  ): Promise<void> {
+    const [, action, ref] = content.split(/\s+/);
+
+    if (!action || action === 'list') {
+      const queue = orchestrator.getQueue();
+      if (queue.length === 0) {
+        await this.reply(threadId, '📋 Queue is empty');
+        return;
+      }
+      const lines = queue.map((item, i) =>
+        `${i + 1}. \`${item.id}\` ${item.message.substring(0, 80)}${item.message.length > 80 ? '...' : ''}`
+      );
+      const paused = orchestrator.isQueuePaused() ? ` ${EMOJI.PAUSE} paused` : '';
+      await this.reply(threadId, `📋 **Queue (${queue.length})**${paused}\n${lines.join('\n')}`);
+      return;
+    }
+
+    if ((action !== 'drop' && action !== 'next') || !ref) {
+      await this.reply(threadId, 'Usage: `!queue`, `!queue drop <n|id>`, `!queue next <n|id>`');
+      return;
+    }
+
+    // Reordering or dropping other people's prompts is an admin action
+    if (!hasAccess(level, 'admin')) {
+      await this.reply(threadId, `\`!queue ${action}\` needs admin access`);
+      return;
+    }
+
+    const target = /^\d+$/.test(ref) ? parseInt(ref, 10) : ref;
+    const item = action === 'drop'
+      ? orchestrator.removeQueuedMessage(target)
+      : orchestrator.prioritizeQueuedMessage(target);
+
+    if (!item) {
+      await this.reply(threadId, `No queued message matching \`${ref}\``);
+      return;
+    }
+
+    await this.reply(threadId, action === 'drop'
+      ? `🗑️ Dropped \`${item.id}\` from the queue`
+      : `⏫ Moved \`${item.id}\` to the front of the queue`);
+  }
+
+  /**
+   * Tell the supervisor we are up and, after a restart, say so in the chat
+   * channel with the resumed session and how long the restart took
+   */
+  private async reportStartup(): Promise<void> {
+    const sessionId = this.orchestrator.getStatus().sessionId ?? null;
+    notifyReady(sessionId);
+
+    const restart = getRestartInfo();
+    if (!restart) return;
+
+    const seconds = ((Date.now() - restart.requestedAt) / 1000).toFixed(1);
+    const reason = restart.reason === 'requested' ? 'Restarted'
+      : restart.reason === 'crash' ? `Recovered from a crash (exit ${restart.signal ?? restart.exitCode})`
+      : 'Recovered from a failed health check';
+    const session = sessionId
+      ? `resumed session \`${sessionId}\``
+      : restart.previousSessionId
+        ? `previous session \`${restart.previousSessionId}\` was not restored, starting fresh`
+        : 'starting a fresh session';
+
+    await this.transport.send('chat', `✅ **Kernel back online**\n\n${reason} in ${seconds}s, ${session}.`);
+  }
+
+  /**
+   * Stop all sessions, the MCP server and the transport
+   */
+  async stop(): Promise<void> {
+    if (this.shuttingDown) return;
+    this.shuttingDown = true;
+
+    this.scheduler.stop();
+    this.usage.stop();
+    for (const key of [...this.heartbeats.keys()]) {
+      this.stopHeartbeat(key);
+    }
+    await this.orchestrator.shutdown();
+    await this.threads.shutdown();
+    await this.mcpServer.stop();
+    await this.transport.disconnect();
+    log.info('Shutdown complete');
+  }
+
+  /**
+   * Port the MCP server is listening on (after start)
+   */
+  getMcpPort(): number {
+    return this.mcpPort;
+  }
+
+  async start(): Promise<void> {
+    log.info('Starting Claude Discord Harness...');
+
+    try {
+      // Start MCP server first
+      this.mcpPort = await this.mcpServer.start(this.mcpPort);
+
+      // Initialize orchestrator (loads Agent SDK)
+      log.info('Initializing orchestrator...');
+      await this.orchestrator.initialize();
+      await this.threads.initialize();
+
+      log.info('Connecting chat transport...');
+      await this.transport.connect();
+
+      log.info('Kernel started successfully!');
+
+      // Resume prompts that were still queued when the kernel last stopped
+      if (this.orchestrator.hasQueuedMessage()) {
+        log.info('Processing restored message queue...');
+        this.orchestrator.processQueue().catch((error) => {
+          log.error('Failed to process restored queue', error);
+        });
+      }
+      this.threads.processWaiting();
+    } catch (error) {
+      log.error('Failed to start kernel', error);
+      throw error;
+    }
+  }
+}
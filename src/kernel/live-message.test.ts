@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { LiveMessage } from './live-message.js';
+import { DISCORD_MAX_LENGTH } from './message-chunks.js';
+
+// Posts and edits of a live message, latest content per message
+function recorder(): { messages: string[]; post: (content: string) => Promise<{ edit: (next: string) => Promise<void> }> } {
+  const messages: string[] = [];
+  return {
+    messages,
+    post: async (content) => {
+      const index = messages.push(content) - 1;
+      return { edit: async (next) => { messages[index] = next; } };
+    },
+  };
+}
+
+describe('LiveMessage', () => {
+  it('should fold tool calls into a status line', async () => {
+    const { messages, post } = recorder();
+    const live = new LiveMessage(post);
+    live.appendBlock('Looking around');
+    live.addTool('Read');
+    live.addTool('Read');
+    live.addTool('Bash');
+    await live.finish();
+
+    expect(messages).toEqual(['Looking around\n-# 🔧 Read ×2, Bash ×1']);
+  });
+
+  it('should cap the status line when a turn calls many tools', async () => {
+    const { messages, post } = recorder();
+    const live = new LiveMessage(post, '🧵 <#123>\n');
+    for (let i = 0; i < 200; i++) {
+      live.addTool(`mcp__some_server_with_a_long_name__tool_number_${i}`);
+    }
+    live.addTool('Bash');
+    live.addTool('Bash');
+    live.appendBlock('x'.repeat(5000));
+    await live.finish();
+
+    expect(messages.length).toBeGreaterThan(1);
+    for (const message of messages) {
+      expect(message.length).toBeLessThanOrEqual(DISCORD_MAX_LENGTH);
+    }
+    const status = messages[messages.length - 1].split('\n').pop()!;
+    expect(status).toMatch(/^-# 🔧 Bash ×2, .*, \+196 more$/);
+    expect(status.length).toBeLessThan(300);
+  });
+});
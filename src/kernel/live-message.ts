@@ -0,0 +1,168 @@
+import { chunkMessage, openFence, DISCORD_MAX_LENGTH } from './message-chunks.js';
+import { createLogger } from './logger.js';
+import type { SentMessage } from './transport.js';
+
+const log = createLogger('live');
+
+// Discord allows roughly 5 edits per 5 seconds on a message
+const EDIT_INTERVAL_MS = 1200;
+// Roll over to a new message a little before the hard limit
+const ROLLOVER_LENGTH = DISCORD_MAX_LENGTH - 100;
+// The status line names the most used tools, each cut to this length
+const STATUS_MAX_TOOLS = 5;
+const STATUS_TOOL_NAME_MAX = 40;
+// Text kept per message however long the header and status line get
+const MIN_BODY_LENGTH = 500;
+
+/**
+ * A single chat message per turn that is edited in place as assistant
+ * text streams in. Tool calls are folded into a compact status line, and
+ * the text rolls over into a new message before it hits Discord's limit.
+ */
+export class LiveMessage {
+  private post: (content: string) => Promise<SentMessage | null>;
+  private header: string;
+  private current: SentMessage | null = null;
+  private text = '';
+  private tools: Map<string, number> = new Map();
+  private lastEdit = 0;
+  private timer: NodeJS.Timeout | null = null;
+  // Discord writes run one at a time, in order
+  private writes: Promise<void> = Promise.resolve();
+  private needsSeparator = false;
+  private streamedBlock = false;
+  private finished = false;
+
+  constructor(post: (content: string) => Promise<SentMessage | null>, header = '') {
+    this.post = post;
+    this.header = header;
+  }
+
+  /**
+   * Append streamed text (from a text_delta)
+   */
+  appendDelta(delta: string): void {
+    this.streamedBlock = true;
+    this.appendText(delta);
+  }
+
+  /**
+   * Append a complete text block. Skipped if it already arrived as deltas.
+   */
+  appendBlock(text: string): void {
+    if (!this.streamedBlock) {
+      this.appendText(text);
+    }
+    this.streamedBlock = false;
+    this.needsSeparator = true;
+  }
+
+  /**
+   * Count a tool call in the status line
+   */
+  addTool(name: string): void {
+    if (this.finished) return;
+    this.tools.set(name, (this.tools.get(name) ?? 0) + 1);
+    // Text after a tool call is a new block
+    this.needsSeparator = this.text.length > 0;
+    this.schedule();
+  }
+
+  /**
+   * Flush the final state; later appends are ignored
+   */
+  async finish(): Promise<void> {
+    if (this.finished) return;
+    this.finished = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.text.length > 0 || this.tools.size > 0) {
+      await this.enqueueFlush();
+    } else {
+      await this.writes;
+    }
+  }
+
+  private appendText(text: string): void {
+    if (this.finished || text.length === 0) return;
+    if (this.needsSeparator && this.text.length > 0) {
+      this.text += '\n\n';
+    }
+    this.needsSeparator = false;
+    this.text += text;
+    this.schedule();
+  }
+
+  private schedule(): void {
+    if (this.timer) return;
+    const wait = Math.max(0, this.lastEdit + EDIT_INTERVAL_MS - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.enqueueFlush().catch((error) => {
+        log.error('Failed to update live message', error);
+      });
+    }, wait);
+  }
+
+  private enqueueFlush(): Promise<void> {
+    this.writes = this.writes.then(() => this.flush());
+    return this.writes;
+  }
+
+  /**
+   * Tool call counts, most used first; past STATUS_MAX_TOOLS the rest are
+   * summed up so the line stays short however many tools a turn calls
+   */
+  private statusLine(): string {
+    if (this.tools.size === 0) return '';
+    const tools = [...this.tools].sort((a, b) => b[1] - a[1]);
+    const counts = tools.slice(0, STATUS_MAX_TOOLS).map(([name, count]) => {
+      const shown = name.length > STATUS_TOOL_NAME_MAX ? name.substring(0, STATUS_TOOL_NAME_MAX - 1) + '…' : name;
+      return `${shown} ×${count}`;
+    });
+    if (tools.length > STATUS_MAX_TOOLS) {
+      counts.push(`+${tools.length - STATUS_MAX_TOOLS} more`);
+    }
+    return `\n-# 🔧 ${counts.join(', ')}`;
+  }
+
+  private async flush(): Promise<void> {
+    const status = this.statusLine();
+    const budget = Math.max(MIN_BODY_LENGTH, ROLLOVER_LENGTH - this.header.length - status.length);
+
+    // Split off full messages synchronously so text appended while we
+    // await Discord lands in the live remainder
+    const done: string[] = [];
+    if (this.text.length > budget) {
+      const chunks = chunkMessage(this.text, budget);
+      this.text = chunks.pop() ?? '';
+      done.push(...chunks);
+    }
+
+    for (const chunk of done) {
+      await this.write(this.header + chunk);
+      // The next write starts a new message
+      this.current = null;
+    }
+
+    // Close a fence that is still streaming so the status line renders outside it
+    const body = openFence(this.text) !== null ? `${this.text}\n\`\`\`` : this.text;
+    await this.write(this.header + body + status);
+    this.lastEdit = Date.now();
+  }
+
+  private async write(content: string): Promise<void> {
+    if (content.trim().length === 0) return;
+    try {
+      if (this.current) {
+        await this.current.edit(content);
+      } else {
+        this.current = await this.post(content);
+      }
+    } catch (error) {
+      log.error('Failed to write live message', error);
+    }
+  }
+}
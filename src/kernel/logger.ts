@@ -0,0 +1,218 @@
+import { appendFileSync, existsSync, mkdirSync, renameSync, statSync, unlinkSync } from 'fs';
+import { dirname } from 'path';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  time: string;
+  level: LogLevel;
+  component: string;
+  message: string;
+  data?: unknown;
+}
+
+export interface LogQuery {
+  // Minimum level to include
+  level?: LogLevel;
+  component?: string;
+  // ISO timestamp or a relative duration such as "30s", "15m", "2h"
+  since?: string;
+  until?: string;
+  // Case-insensitive substring match on message and data
+  search?: string;
+  // Most recent N matching entries (default: 50)
+  limit?: number;
+}
+
+export interface LoggerOptions {
+  level: LogLevel;
+  format: 'pretty' | 'json';
+  // Log file path; rotated to .1, .2, ... when it exceeds maxFileBytes
+  file?: string;
+  maxFileBytes: number;
+  maxFiles: number;
+  // Entries kept in memory for queryLogs
+  bufferSize: number;
+  // Also print entries to the console
+  console: boolean;
+}
+
+export interface Logger {
+  debug(message: string, data?: unknown): void;
+  info(message: string, data?: unknown): void;
+  warn(message: string, data?: unknown): void;
+  error(message: string, data?: unknown): void;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+let options: LoggerOptions = {
+  level: 'info',
+  format: 'pretty',
+  maxFileBytes: 5 * 1024 * 1024,
+  maxFiles: 5,
+  bufferSize: 5000,
+  console: true,
+};
+
+const buffer: LogEntry[] = [];
+let fileSize = 0;
+
+/**
+ * Apply logger settings (called once config is loaded)
+ */
+export function configureLogger(overrides: Partial<LoggerOptions>): void {
+  options = { ...options, ...overrides };
+  buffer.splice(0, Math.max(0, buffer.length - options.bufferSize));
+
+  if (options.file) {
+    try {
+      mkdirSync(dirname(options.file), { recursive: true });
+      fileSize = existsSync(options.file) ? statSync(options.file).size : 0;
+    } catch (error) {
+      console.error('[logger] Cannot use log file:', error);
+      options.file = undefined;
+    }
+  }
+}
+
+/**
+ * Make data JSON-safe (errors lose their fields under JSON.stringify)
+ */
+function serialize(data: unknown): unknown {
+  if (data instanceof Error) {
+    return { name: data.name, message: data.message, stack: data.stack };
+  }
+  if (data === undefined) return undefined;
+
+  try {
+    return JSON.parse(JSON.stringify(data));
+  } catch {
+    return String(data);
+  }
+}
+
+function rotate(file: string): void {
+  const oldest = `${file}.${options.maxFiles}`;
+  if (existsSync(oldest)) unlinkSync(oldest);
+  for (let i = options.maxFiles - 1; i >= 1; i--) {
+    if (existsSync(`${file}.${i}`)) renameSync(`${file}.${i}`, `${file}.${i + 1}`);
+  }
+  renameSync(file, `${file}.1`);
+  fileSize = 0;
+}
+
+function writeToFile(line: string): void {
+  if (!options.file) return;
+
+  try {
+    const bytes = Buffer.byteLength(line) + 1;
+    if (fileSize > 0 && fileSize + bytes > options.maxFileBytes) {
+      rotate(options.file);
+    }
+    appendFileSync(options.file, line + '\n');
+    fileSize += bytes;
+  } catch (error) {
+    console.error('[logger] Failed to write log file:', error);
+  }
+}
+
+/**
+ * Human-readable single line for an entry
+ */
+export function formatLogEntry(entry: LogEntry): string {
+  const data = entry.data === undefined
+    ? ''
+    : ' ' + (typeof entry.data === 'string' ? entry.data : JSON.stringify(entry.data));
+  return `${entry.time} ${entry.level.toUpperCase().padEnd(5)} [${entry.component}] ${entry.message}${data}`;
+}
+
+function write(level: LogLevel, component: string, message: string, data?: unknown): void {
+  if (LEVELS[level] < LEVELS[options.level]) return;
+
+  const entry: LogEntry = {
+    time: new Date().toISOString(),
+    level,
+    component,
+    message,
+    ...(data !== undefined ? { data: serialize(data) } : {}),
+  };
+
+  buffer.push(entry);
+  if (buffer.length > options.bufferSize) {
+    buffer.shift();
+  }
+
+  const json = JSON.stringify(entry);
+  writeToFile(json);
+
+  if (!options.console) return;
+  const line = options.format === 'json' ? json : formatLogEntry(entry);
+  if (level === 'error' || level === 'warn') {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+/**
+ * Create a logger that tags every entry with a component name
+ */
+export function createLogger(component: string): Logger {
+  return {
+    debug: (message, data) => write('debug', component, message, data),
+    info: (message, data) => write('info', component, message, data),
+    warn: (message, data) => write('warn', component, message, data),
+    error: (message, data) => write('error', component, message, data),
+  };
+}
+
+/**
+ * Parse an ISO timestamp or relative duration ("30s", "15m", "2h", "1d")
+ * into epoch milliseconds
+ */
+function parseTime(value: string): number {
+  const relative = value.trim().match(/^(\d+)\s*([smhd])$/);
+  if (relative) {
+    const unit = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[relative[2] as 's' | 'm' | 'h' | 'd'];
+    return Date.now() - parseInt(relative[1], 10) * unit;
+  }
+
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid time: ${value} (use an ISO timestamp or e.g. "15m")`);
+  }
+  return parsed;
+}
+
+/**
+ * Search the in-memory log buffer, most recent entries last
+ */
+export function queryLogs(query: LogQuery = {}): LogEntry[] {
+  const minLevel = query.level ? LEVELS[query.level] : 0;
+  const since = query.since ? parseTime(query.since) : -Infinity;
+  const until = query.until ? parseTime(query.until) : Infinity;
+  const search = query.search?.toLowerCase();
+  const limit = query.limit ?? 50;
+
+  const matches = buffer.filter((entry) => {
+    if (LEVELS[entry.level] < minLevel) return false;
+    if (query.component && entry.component !== query.component) return false;
+
+    const time = Date.parse(entry.time);
+    if (time < since || time > until) return false;
+
+    if (search) {
+      const haystack = entry.message + (entry.data === undefined ? '' : JSON.stringify(entry.data));
+      if (!haystack.toLowerCase().includes(search)) return false;
+    }
+    return true;
+  });
+
+  return matches.slice(-limit);
+}
@@ -1,29 +1,121 @@
 import express, { Request, Response } from 'express';
+import { randomUUID, timingSafeEqual } from 'crypto';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ErrorCode,
+  McpError,
+  isInitializeRequest,
+  type LoggingLevel,
 } from '@modelcontextprotocol/sdk/types.js';
-import { config } from '../config.js';
+import { config, type McpToken } from '../config.js';
+import { hasAccess } from './access.js';
+import type { AccessLevel } from '../types.js';
 import type { Orchestrator } from './orchestrator.js';
-import type { DiscordClient } from './discord.js';
+import type { ChatTransport } from './transport.js';
+import type { UsageTracker } from './usage.js';
+import type { SessionHistory } from './session-history.js';
+import type { Scheduler } from './scheduler.js';
+import { renderTranscript, type TranscriptStore } from './transcripts.js';
+import { createLogger, queryLogs, formatLogEntry, type LogQuery } from './logger.js';
+import { isSupervised, requestRestart } from './supervisor-ipc.js';
+
+const log = createLogger('mcp');
+
+// Resource clients can subscribe to for kernel state changes
+const STATUS_RESOURCE_URI = 'kernel://status';
+
+// Scope each tool needs; tools not listed here are admin-only
+const TOOL_LEVELS: Record<string, AccessLevel> = {
+  get_status: 'read-only',
+  get_session_id: 'read-only',
+  list_sessions: 'read-only',
+  export_transcript: 'read-only',
+  list_schedules: 'read-only',
+  get_system_status: 'read-only',
+  get_usage: 'read-only',
+  schedule_prompt: 'prompt',
+  cancel_schedule: 'prompt',
+  restart_claude: 'admin',
+  resume_session: 'admin',
+  reload_mcp_config: 'admin',
+  restart_kernel: 'admin',
+  // Admin-only, like /logs
+  get_logs: 'admin',
+};
+
+function toolLevel(name: string): AccessLevel {
+  return TOOL_LEVELS[name] ?? 'admin';
+}
+
+// One MCP client connection: each gets its own Server bound to its transport
+interface McpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  // Resource URIs this client subscribed to
+  subscriptions: Set<string>;
+  // Scope of the token that opened the session
+  level: AccessLevel;
+}
+
+function isLoopback(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
+function jsonRpcError(message: string) {
+  return {
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  };
+}
 
 export class MCPServer {
   private app: express.Application;
-  private server: Server;
-  private transport: StreamableHTTPServerTransport | null = null;
+  private sessions: Map<string, McpSession> = new Map();
   private orchestrator: Orchestrator;
-  private discord: DiscordClient;
+  private transport: ChatTransport;
+  private usage: UsageTracker;
+  private history: SessionHistory;
+  private scheduler: Scheduler;
+  private transcripts: TranscriptStore;
+  private tokens: McpToken[];
   private httpServer: ReturnType<typeof express.application.listen> | null = null;
 
-  constructor(orchestrator: Orchestrator, discord: DiscordClient) {
+  constructor(
+    orchestrator: Orchestrator,
+    transport: ChatTransport,
+    usage: UsageTracker,
+    history: SessionHistory,
+    scheduler: Scheduler,
+    transcripts: TranscriptStore,
+    tokens: McpToken[] = config.mcpTokens
+  ) {
     this.orchestrator = orchestrator;
-    this.discord = discord;
+    this.transport = transport;
+    this.usage = usage;
+    this.history = history;
+    this.scheduler = scheduler;
+    this.transcripts = transcripts;
+    this.tokens = tokens;
     this.app = express();
     this.app.use(express.json());
 
-    this.server = new Server(
+    this.setupRoutes();
+    this.setupNotifications();
+  }
+
+  /**
+   * Create a Server for a new MCP session
+   */
+  private createServer(subscriptions: Set<string>, level: AccessLevel): Server {
+    const server = new Server(
       {
         name: 'claude-discord-kernel',
         version: '1.0.0',
@@ -31,17 +123,102 @@ export class MCPServer {
       {
         capabilities: {
           tools: {},
+          logging: {},
+          resources: { subscribe: true },
         },
       }
     );
 
-    this.setupTools();
-    this.setupRoutes();
+    this.setupTools(server, level);
+    this.setupResources(server, subscriptions);
+    return server;
+  }
+
+  /**
+   * Expose kernel status as a subscribable resource
+   */
+  private setupResources(server: Server, subscriptions: Set<string>): void {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return {
+        resources: [
+          {
+            uri: STATUS_RESOURCE_URI,
+            name: 'Kernel status',
+            description: 'Current orchestrator state, session and queue depth. Subscribe to be notified when it changes.',
+            mimeType: 'application/json',
+          },
+        ],
+      };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      if (request.params.uri !== STATUS_RESOURCE_URI) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${request.params.uri}`);
+      }
+      return {
+        contents: [
+          {
+            uri: STATUS_RESOURCE_URI,
+            mimeType: 'application/json',
+            text: JSON.stringify(this.orchestrator.getStatus()),
+          },
+        ],
+      };
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      subscriptions.add(request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.delete(request.params.uri);
+      return {};
+    });
+  }
+
+  /**
+   * Push orchestrator events to connected MCP clients as logging
+   * notifications, and resource-updated for status subscribers
+   */
+  private setupNotifications(): void {
+    this.orchestrator.on('stateChange', (state) => {
+      this.broadcast('info', { event: 'stateChange', state });
+      this.notifyStatusUpdated();
+    });
+
+    this.orchestrator.on('result', (result) => {
+      this.broadcast('info', {
+        event: 'result',
+        result: result.substring(0, 1000) + (result.length > 1000 ? '...' : ''),
+      });
+    });
+
+    this.orchestrator.on('error', (error) => {
+      this.broadcast('error', { event: 'error', message: error.message });
+    });
   }
 
-  private setupTools(): void {
+  private broadcast(level: LoggingLevel, data: Record<string, unknown>): void {
+    for (const [sessionId, session] of this.sessions) {
+      session.server
+        .sendLoggingMessage({ level, logger: 'kernel', data }, sessionId)
+        .catch((error) => log.error(`Failed to notify session ${sessionId}`, error));
+    }
+  }
+
+  private notifyStatusUpdated(): void {
+    for (const [sessionId, session] of this.sessions) {
+      if (!session.subscriptions.has(STATUS_RESOURCE_URI)) continue;
+      session.server
+        .sendResourceUpdated({ uri: STATUS_RESOURCE_URI })
+        .catch((error) => log.error(`Failed to notify session ${sessionId}`, error));
+    }
+  }
+
+  private setupTools(server: Server, level: AccessLevel): void {
     // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
         tools: [
           {
@@ -52,7 +229,7 @@ export class MCPServer {
               properties: {
                 resume: {
                   type: 'boolean',
-                  description: 'If true, attempt to resume previous session context',
+                  description: 'If true, keep the current session (or the most recent one) instead of starting fresh',
                 },
                 message: {
                   type: 'string',
@@ -77,9 +254,113 @@ export class MCPServer {
               properties: {},
             },
           },
+          {
+            name: 'list_sessions',
+            description: 'List earlier Claude sessions, most recent first, with start time, first prompt and last result',
+            inputSchema: {
+              type: 'object' as const,
+              properties: {
+                limit: {
+                  type: 'number',
+                  description: 'Number of sessions to return (default: 10)',
+                },
+                origin: {
+                  type: 'string',
+                  description: "Only sessions from 'main' or a thread ('thread:<id>')",
+                },
+              },
+            },
+          },
+          {
+            name: 'resume_session',
+            description: 'Switch the main chat back to an earlier session from list_sessions; the next message continues it. Sessions not in the history cannot be resumed.',
+            inputSchema: {
+              type: 'object' as const,
+              properties: {
+                id: {
+                  type: 'string',
+                  description: 'Session ID, unique ID prefix, or position in list_sessions',
+                },
+              },
+              required: ['id'],
+            },
+          },
+          {
+            name: 'export_transcript',
+            description: 'Render a session\'s transcript (prompts, your text, collapsed tool calls, results and cost) as Markdown and attach it to the Discord chat channel',
+            inputSchema: {
+              type: 'object' as const,
+              properties: {
+                id: {
+                  type: 'string',
+                  description: 'Session ID, unique ID prefix, or position in list_sessions (default: the current session)',
+                },
+                post: {
+                  type: 'boolean',
+                  description: 'Attach the file to Discord (default: true); when false the Markdown is returned instead',
+                },
+              },
+            },
+          },
+          {
+            name: 'schedule_prompt',
+            description: 'Schedule a prompt for yourself: a follow-up at a set time or after a delay, or a recurring cron job. When it fires the prompt is queued for the session and a notice is posted to Discord.',
+            inputSchema: {
+              type: 'object' as const,
+              properties: {
+                prompt: {
+                  type: 'string',
+                  description: 'What to send when the schedule fires',
+                },
+                cron: {
+                  type: 'string',
+                  description: "Cron expression for a recurring prompt, e.g. '0 9 * * 1-5'",
+                },
+                at: {
+                  type: 'string',
+                  description: 'ISO timestamp for a one-shot prompt',
+                },
+                delay_minutes: {
+                  type: 'number',
+                  description: 'Minutes from now for a one-shot prompt',
+                },
+                timezone: {
+                  type: 'string',
+                  description: 'IANA timezone for cron expressions (default: UTC)',
+                },
+                thread_id: {
+                  type: 'string',
+                  description: 'Discord thread whose session gets the prompt (default: the main chat)',
+                },
+              },
+              required: ['prompt'],
+            },
+          },
+          {
+            name: 'list_schedules',
+            description: 'List scheduled prompts with their next run time',
+            inputSchema: {
+              type: 'object' as const,
+              properties: {},
+            },
+          },
+          {
+            name: 'cancel_schedule',
+            description: 'Cancel a scheduled prompt',
+            inputSchema: {
+              type: 'object' as const,
+              properties: {
+                id: {
+                  type: 'string',
+                  description: 'Schedule ID from schedule_prompt or list_schedules',
+                },
+              },
+              required: ['id'],
+            },
+          },
           {
             name: 'get_system_status',
-            description: 'Get comprehensive system status including kernel, MCP servers, Discord, processes, and recent logs',
+            description: 'Get kernel state and the health of each MCP server (connection status, tools and last error, as reported by the most recent query), plus which servers failed to connect and why',
             inputSchema: {
               type: 'object' as const,
               properties: {},
@@ -87,7 +368,7 @@ export class MCPServer {
           },
           {
             name: 'get_logs',
-            description: 'Get recent logs from the system',
+            description: 'Get recent structured kernel logs, optionally filtered by level, component, time window and text',
             inputSchema: {
               type: 'object' as const,
               properties: {
@@ -95,6 +376,49 @@ export class MCPServer {
                   type: 'number',
                   description: 'Number of log lines to retrieve (default: 50, max: 500)',
                 },
+                level: {
+                  type: 'string',
+                  enum: ['debug', 'info', 'warn', 'error'],
+                  description: 'Minimum level to include',
+                },
+                component: {
+                  type: 'string',
+                  description: 'Only include this component (e.g. orchestrator, discord, mcp, kernel)',
+                },
+                since: {
+                  type: 'string',
+                  description: 'Start of time window: ISO timestamp or relative duration like "15m", "2h"',
+                },
+                until: {
+                  type: 'string',
+                  description: 'End of time window: ISO timestamp or relative duration',
+                },
+                search: {
+                  type: 'string',
+                  description: 'Case-insensitive substring to match in message or data',
+                },
+                format: {
+                  type: 'string',
+                  enum: ['text', 'json'],
+                  description: 'Output format (default: text)',
+                },
+              },
+            },
+          },
+          {
+            name: 'get_usage',
+            description: 'Get cost and token usage: today\'s totals, daily budget state, the current session, recent days and recent queries',
+            inputSchema: {
+              type: 'object' as const,
+              properties: {
+                days: {
+                  type: 'number',
+                  description: 'Number of recent days to include (default: 7)',
+                },
+                recent: {
+                  type: 'number',
+                  description: 'Number of recent queries to include (default: 10)',
+                },
               },
             },
           },
@@ -108,20 +432,33 @@ export class MCPServer {
           },
           {
             name: 'restart_kernel',
-            description: 'Trigger a full kernel restart by signaling the restart daemon. This will restart the entire npm process and create a fresh session.',
+            description: 'Trigger a full kernel restart through the supervisor. The kernel process is replaced and reports back to Discord when it is up again.',
             inputSchema: {
               type: 'object' as const,
               properties: {},
             },
           },
-        ],
+        ].filter(tool => hasAccess(level, toolLevel(tool.name))),
       };
     });
 
     // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
 
+      if (!hasAccess(level, toolLevel(name))) {
+        log.warn(`Denied ${name} to a ${level} MCP token`);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: false, error: `Permission denied: ${name} needs a ${toolLevel(name)} token` }),
+            },
+          ],
+          isError: true,
+        };
+      }
+
       switch (name) {
         case 'restart_claude': {
           const resume = (args as { resume?: boolean })?.resume ?? false;
@@ -137,6 +474,7 @@ export class MCPServer {
                     success: true,
                     message: 'Claude instance restarted successfully',
                     resume,
+                    sessionId: this.orchestrator.getStatus().sessionId ?? null,
                     kickoffMessage: message ?? null,
                   }),
                 },
@@ -184,47 +522,119 @@ export class MCPServer {
           };
         }
 
-        case 'get_system_status': {
-          const { execSync } = await import('child_process');
-          const { readFileSync } = await import('fs');
+        case 'list_sessions': {
+          const { limit, origin } = (args ?? {}) as { limit?: number; origin?: string };
+          const current = this.orchestrator.getStatus().sessionId ?? null;
+          return {
+            content: [
+              {
+                type: 'text' as const,
+                text: JSON.stringify({
+                  currentSessionId: current,
+                  sessions: this.history.list(limit ?? 10, origin),
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'resume_session': {
+          const ref = String((args as { id?: string })?.id ?? '');
+          const entry = this.history.resolve(ref);
+          if (!entry) {
+            return {
+              content: [
+                {
+                  type: 'text' as const,
+                  text: JSON.stringify({
+                    success: false,
+                    error: `No session matching "${ref}". Use list_sessions to see available sessions.`,
+                  }),
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          await this.orchestrator.resumeSession(entry.sessionId);
+          return {
+            content: [
+              {
+                type: 'text' as const,
+                text: JSON.stringify({
+                  success: true,
+                  message: 'Session switched. The next message will continue it.',
+                  session: entry,
+                }),
+              },
+            ],
+          };
+        }
+
+        case 'export_transcript': {
+          const { id, post } = (args ?? {}) as { id?: string; post?: boolean };
 
           try {
-            const status = this.orchestrator.getStatus();
-
-            // Get process info
-            const npmProcess = execSync('ps aux | grep "npm run dev" | grep -v grep || echo "not found"', { encoding: 'utf-8' });
-            const discordProcess = execSync('ps aux | grep "discord-mcp" | grep -v grep || echo "not found"', { encoding: 'utf-8' });
-
-            // Get MCP config
-            let mcpConfig: any = {};
-            try {
-              mcpConfig = JSON.parse(readFileSync('/root/source/claudes_home/.mcp.json', 'utf-8'));
-            } catch (e) {
-              mcpConfig = { error: 'Could not read .mcp.json' };
+            const transcript = this.exportTranscript(id);
+            if (post !== false) {
+              await this.transport.postRich('chat', {
+                title: '📜 Transcript',
+                description: `Session \`${transcript.sessionId}\` · ${transcript.entries} entries`,
+                files: [{ name: transcript.filename, data: Buffer.from(transcript.markdown, 'utf-8') }],
+              });
             }
 
-            const systemStatus = {
-              kernel: {
-                uptime: status.uptime,
-                sessionId: status.sessionId ?? null,
-                state: status.state,
-              },
-              mcpServers: {
-                configured: Object.keys(mcpConfig.mcpServers || {}),
-                // Note: Actual connection status would need to be tracked separately
-              },
-              processes: {
-                npm: npmProcess.trim(),
-                discord: discordProcess.trim(),
-              },
-              timestamp: new Date().toISOString(),
+            return {
+              content: [
+                {
+                  type: 'text' as const,
+                  text: JSON.stringify({
+                    success: true,
+                    sessionId: transcript.sessionId,
+                    entries: transcript.entries,
+                    posted: post !== false,
+                    ...(post === false ? { markdown: transcript.markdown } : {}),
+                  }),
+                },
+              ],
             };
+          } catch (error) {
+            return {
+              content: [
+                {
+                  type: 'text' as const,
+                  text: JSON.stringify({
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error),
+                  }),
+                },
+              ],
+              isError: true,
+            };
+          }
+        }
 
+        case 'schedule_prompt': {
+          const { prompt, cron, at, delay_minutes, timezone, thread_id } = (args ?? {}) as {
+            prompt?: string;
+            cron?: string;
+            at?: string;
+            delay_minutes?: number;
+            timezone?: string;
+            thread_id?: string;
+          };
+
+          try {
+            const runAt = delay_minutes !== undefined
+              ? new Date(Date.now() + delay_minutes * 60_000).toISOString()
+              : at;
+            const schedule = this.scheduler.add({ prompt: prompt ?? '', cron, runAt, timezone, threadId: thread_id });
+            const [listed] = this.scheduler.list().filter(entry => entry.id === schedule.id);
             return {
               content: [
                 {
                   type: 'text' as const,
-                  text: JSON.stringify(systemStatus, null, 2),
+                  text: JSON.stringify({ success: true, schedule: listed ?? schedule }),
                 },
               ],
             };
@@ -234,6 +644,7 @@ export class MCPServer {
                 {
                   type: 'text' as const,
                   text: JSON.stringify({
+                    success: false,
                     error: error instanceof Error ? error.message : String(error),
                   }),
                 },
@@ -243,17 +654,72 @@ export class MCPServer {
           }
         }
 
+        case 'list_schedules': {
+          return {
+            content: [
+              {
+                type: 'text' as const,
+                text: JSON.stringify({ schedules: this.scheduler.list() }, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'cancel_schedule': {
+          const id = String((args as { id?: string })?.id ?? '');
+          const schedule = this.scheduler.cancel(id);
+          return {
+            content: [
+              {
+                type: 'text' as const,
+                text: JSON.stringify(schedule
+                  ? { success: true, cancelled: schedule }
+                  : { success: false, error: `No schedule with ID "${id}". Use list_schedules to see them.` }),
+              },
+            ],
+            ...(schedule ? {} : { isError: true }),
+          };
+        }
+
+        case 'get_system_status': {
+          const status = this.orchestrator.getStatus();
+          const servers = this.orchestrator.getMcpServerHealth();
+
+          const systemStatus = {
+            kernel: {
+              uptime: status.uptime,
+              sessionId: status.sessionId ?? null,
+              state: status.state,
+              queueDepth: status.queueDepth,
+            },
+            mcpServers: {
+              configPath: this.orchestrator.getMcpConfigPath(),
+              servers,
+              failed: servers
+                .filter(server => server.status !== 'connected' && server.status !== 'pending' && server.status !== 'unknown')
+                .map(({ name, status, lastError }) => ({ name, status, error: lastError })),
+            },
+            timestamp: new Date().toISOString(),
+          };
+
+          return {
+            content: [
+              {
+                type: 'text' as const,
+                text: JSON.stringify(systemStatus, null, 2),
+              },
+            ],
+          };
+        }
+
         case 'get_logs': {
-          const { execSync } = await import('child_process');
-          const lines = (args as { lines?: number })?.lines ?? 50;
-          const maxLines = Math.min(lines, 500);
+          const { lines, format, ...filters } = (args ?? {}) as LogQuery & {
+            lines?: number;
+            format?: 'text' | 'json';
+          };
 
           try {
-            // Try to get logs from tmux
-            const logs = execSync(
-              `tmux capture-pane -t 0:1.1 -p -S -${maxLines} 2>/dev/null || echo "Could not capture tmux logs"`,
-              { encoding: 'utf-8' }
-            );
+            const logs = this.getLogs({ ...filters, limit: lines }, format);
 
             return {
               content: [
@@ -278,6 +744,23 @@ export class MCPServer {
           }
         }
 
+        case 'get_usage': {
+          const { days, recent } = (args ?? {}) as { days?: number; recent?: number };
+          const summary = this.usage.getSummary({
+            sessionId: this.orchestrator.getStatus().sessionId,
+            days,
+            recent,
+          });
+          return {
+            content: [
+              {
+                type: 'text' as const,
+                text: JSON.stringify(summary, null, 2),
+              },
+            ],
+          };
+        }
+
         case 'reload_mcp_config': {
           try {
             this.orchestrator.reloadMcpConfig();
@@ -309,16 +792,29 @@ export class MCPServer {
         }
 
         case 'restart_kernel': {
-          const { writeFileSync } = await import('fs');
-          const { join } = await import('path');
-
           try {
+            const sessionId = this.orchestrator.getStatus().sessionId ?? null;
+            if (!isSupervised()) {
+              return {
+                content: [
+                  {
+                    type: 'text' as const,
+                    text: JSON.stringify({
+                      success: false,
+                      error: 'Kernel is not running under the supervisor (npm run supervise), so it cannot restart itself.',
+                    }),
+                  },
+                ],
+                isError: true,
+              };
+            }
+
             // Send notification to chat channel
-            await this.discord.send('chat', '🔄 **Kernel Restart Triggered**\n\nRestarting the kernel... I\'ll be back in a moment!');
+            await this.transport.send('chat', '🔄 **Kernel Restart Triggered**\n\nRestarting the kernel... I\'ll be back in a moment!');
 
-            // Create signal file to trigger restart
-            const signalFile = join(process.cwd(), '.restart-signal');
-            writeFileSync(signalFile, new Date().toISOString());
+            // The supervisor stops this process and starts a new one; give
+            // this response a moment to reach the client first
+            setTimeout(() => requestRestart(sessionId), 1000);
 
             return {
               content: [
@@ -326,7 +822,7 @@ export class MCPServer {
                   type: 'text' as const,
                   text: JSON.stringify({
                     success: true,
-                    message: 'Restart signal sent. Kernel will restart shortly.',
+                    message: 'Restart requested. Kernel will restart shortly.',
                   }),
                 },
               ],
@@ -361,41 +857,186 @@ export class MCPServer {
     });
   }
 
+  /**
+   * Get recent kernel logs (shared by the get_logs tool and /logs command)
+   */
+  getLogs(query: LogQuery = {}, format: 'text' | 'json' = 'text'): string {
+    const entries = queryLogs({ ...query, limit: Math.min(query.limit ?? 50, 500) });
+
+    if (format === 'json') {
+      return JSON.stringify(entries, null, 2);
+    }
+    return entries.length > 0
+      ? entries.map(formatLogEntry).join('\n')
+      : 'No matching log entries';
+  }
+
+  /**
+   * Scope of the bearer token on a request, or null if it has none or an
+   * unknown one. With no tokens configured every request is admin.
+   */
+  private authenticate(req: Request): AccessLevel | null {
+    if (this.tokens.length === 0) return 'admin';
+
+    const match = /^Bearer\s+(.+)$/i.exec(req.header('authorization') ?? '');
+    if (!match) return null;
+    const presented = Buffer.from(match[1].trim());
+
+    for (const { token, level } of this.tokens) {
+      const expected = Buffer.from(token);
+      if (expected.length === presented.length && timingSafeEqual(expected, presented)) {
+        return level;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Render a session's transcript as Markdown (shared by the export_transcript
+   * tool and /transcript command). The ref is anything list_sessions accepts;
+   * without one the orchestrator's current session is used.
+   */
+  exportTranscript(ref?: string, orchestrator: Orchestrator = this.orchestrator): { sessionId: string; filename: string; markdown: string; entries: number } {
+    const sessionId = ref ? this.history.resolve(ref)?.sessionId : orchestrator.getStatus().sessionId;
+    if (!sessionId) {
+      throw new Error(ref ? `No session matching "${ref}"` : 'No current session');
+    }
+
+    const entries = this.transcripts.read(sessionId);
+    if (entries.length === 0) {
+      throw new Error(`No transcript recorded for session ${sessionId}`);
+    }
+
+    return {
+      sessionId,
+      filename: `transcript-${sessionId.substring(0, 8)}.md`,
+      markdown: renderTranscript(sessionId, entries),
+      entries: entries.length,
+    };
+  }
+
   private setupRoutes(): void {
-    // MCP endpoint using Streamable HTTP transport
-    this.app.all('/mcp', async (req: Request, res: Response) => {
-      // Create transport for this request
-      const transport = new StreamableHTTPServerTransport({
-        sessionIdGenerator: undefined, // Stateless mode
-      });
+    // Every /mcp request carries a bearer token; a session only accepts
+    // tokens of the scope it was opened with
+    this.app.use('/mcp', (req: Request, res: Response, next) => {
+      const level = this.authenticate(req);
+      if (!level) {
+        log.warn(`Rejected unauthenticated MCP request from ${req.ip}`);
+        res.status(401).set('WWW-Authenticate', 'Bearer').json(jsonRpcError('Unauthorized'));
+        return;
+      }
+
+      const session = this.sessions.get(req.header('mcp-session-id') ?? '');
+      if (session && session.level !== level) {
+        res.status(403).json(jsonRpcError('Token does not match this MCP session'));
+        return;
+      }
+
+      res.locals.level = level;
+      next();
+    });
+
+    // MCP endpoint using Streamable HTTP transport: POST carries requests
+    // and creates a session on initialize
+    this.app.post('/mcp', async (req: Request, res: Response) => {
+      const sessionId = req.header('mcp-session-id');
+      let session = sessionId ? this.sessions.get(sessionId) : undefined;
 
-      // Connect server to transport
-      await this.server.connect(transport);
+      if (!session) {
+        if (sessionId) {
+          res.status(404).json(jsonRpcError('Unknown MCP session'));
+          return;
+        }
+        if (!isInitializeRequest(req.body)) {
+          res.status(400).json(jsonRpcError('No MCP session ID provided'));
+          return;
+        }
+        session = await this.createSession(res.locals.level);
+      }
 
-      // Handle the request
-      await transport.handleRequest(req, res);
+      await session.transport.handleRequest(req, res, req.body);
     });
 
+    // GET opens the notification stream, DELETE ends the session
+    const handleSessionRequest = async (req: Request, res: Response) => {
+      const sessionId = req.header('mcp-session-id');
+      const session = sessionId ? this.sessions.get(sessionId) : undefined;
+      if (!session) {
+        res.status(sessionId ? 404 : 400).json(jsonRpcError(sessionId ? 'Unknown MCP session' : 'No MCP session ID provided'));
+        return;
+      }
+      await session.transport.handleRequest(req, res);
+    };
+    this.app.get('/mcp', handleSessionRequest);
+    this.app.delete('/mcp', handleSessionRequest);
+
     // Health check endpoint
     this.app.get('/health', (_req: Request, res: Response) => {
       const status = this.orchestrator.getStatus();
       res.json({
         healthy: true,
         ...status,
+        mcpSessions: this.sessions.size,
       });
     });
   }
 
-  async start(): Promise<void> {
-    return new Promise((resolve) => {
-      this.httpServer = this.app.listen(config.mcpPort, () => {
-        console.log(`MCP server listening on http://localhost:${config.mcpPort}/mcp`);
-        resolve();
+  private async createSession(level: AccessLevel): Promise<McpSession> {
+    const subscriptions = new Set<string>();
+    const server = this.createServer(subscriptions, level);
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        this.sessions.set(sessionId, { server, transport, subscriptions, level });
+        log.info(`MCP session opened: ${sessionId} (${level}, ${this.sessions.size} active)`);
+      },
+      onsessionclosed: (sessionId) => {
+        this.sessions.delete(sessionId);
+        log.info(`MCP session closed: ${sessionId} (${this.sessions.size} active)`);
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    return { server, transport, subscriptions, level };
+  }
+
+  /**
+   * Listen on the given port (0 picks a free one); resolves with the bound port
+   * and rejects if the port cannot be bound
+   */
+  async start(port: number = config.mcpPort, host: string = config.mcpHost): Promise<number> {
+    if (this.tokens.length === 0 && !isLoopback(host)) {
+      log.warn(`MCP server is listening on ${host} without MCP_TOKENS: anyone who can reach it can restart the kernel`);
+    }
+
+    return new Promise((resolve, reject) => {
+      const server = this.app.listen(port, host, () => {
+        const address = server.address();
+        const bound = typeof address === 'object' && address ? address.port : port;
+        log.info(`MCP server listening on http://${host}:${bound}/mcp (${this.tokens.length > 0 ? `${this.tokens.length} token(s)` : 'no auth'})`);
+        resolve(bound);
+      });
+      // e.g. EADDRINUSE when another kernel holds the port
+      server.once('error', (error) => {
+        this.httpServer = null;
+        reject(error);
       });
+      this.httpServer = server;
     });
   }
 
   async stop(): Promise<void> {
+    for (const session of this.sessions.values()) {
+      await session.server.close().catch(() => {});
+    }
+    this.sessions.clear();
+
     if (this.httpServer) {
       return new Promise((resolve, reject) => {
         this.httpServer!.close((err) => {
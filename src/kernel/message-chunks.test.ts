@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { chunkMessage, openFence } from './message-chunks.js';
+
+describe('openFence', () => {
+  it('should return the language of a fence left open', () => {
+    expect(openFence('text\n```ts\nconst a = 1;')).toBe('ts');
+    expect(openFence('```\nplain')).toBe('');
+  });
+
+  it('should return null when every fence is closed', () => {
+    expect(openFence('no fences')).toBeNull();
+    expect(openFence('```ts\nconst a = 1;\n```\nafter')).toBeNull();
+    expect(openFence('```js\na\n```\n```py\nb\n```')).toBeNull();
+  });
+});
+
+describe('chunkMessage', () => {
+  it('should leave short messages alone', () => {
+    expect(chunkMessage('hello', 100)).toEqual(['hello']);
+  });
+
+  it('should prefer breaking at a newline', () => {
+    const chunks = chunkMessage(`${'a'.repeat(60)}\n${'b'.repeat(60)}`, 100);
+    expect(chunks).toEqual(['a'.repeat(60), 'b'.repeat(60)]);
+  });
+
+  it('should close and reopen a code fence split across chunks', () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+    const content = `Here:\n\`\`\`ts\n${lines.join('\n')}\n\`\`\`\nDone`;
+    const chunks = chunkMessage(content, 80);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(80);
+      expect(openFence(chunk)).toBeNull();
+    }
+    for (const chunk of chunks.slice(1, -1)) {
+      expect(chunk.startsWith('```ts\n')).toBe(true);
+    }
+    expect(chunks[chunks.length - 1].endsWith('```\nDone')).toBe(true);
+
+    // Stripping the added fences gives back every line in order
+    const text = chunks.join('\n').replace(/\n```\n```ts\n/g, '\n');
+    expect(text).toBe(content);
+  });
+
+  it('should reject a length that leaves no room for text', () => {
+    expect(() => chunkMessage('x'.repeat(20), 4)).toThrow(RangeError);
+    expect(() => chunkMessage('x'.repeat(20), 0)).toThrow(RangeError);
+  });
+
+  it('should keep shrinking when a fence language tag is long', () => {
+    const content = `\`\`\`${'l'.repeat(30)}\n${'code '.repeat(40)}\n\`\`\``;
+    const chunks = chunkMessage(content, 40);
+    expect(chunks.every(chunk => chunk.length <= 40)).toBe(true);
+    expect(chunks.join('')).toContain('code');
+  });
+
+  it('should hard-cut text with no break points', () => {
+    const chunks = chunkMessage('x'.repeat(250), 100);
+    expect(chunks.every(chunk => chunk.length <= 100)).toBe(true);
+    expect(chunks.join('')).toBe('x'.repeat(250));
+  });
+});
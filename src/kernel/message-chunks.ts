@@ -0,0 +1,77 @@
+export const DISCORD_MAX_LENGTH = 2000;
+
+// Room kept at the end of a chunk to close a code fence ("\n```")
+const FENCE_CLOSE_LENGTH = 4;
+
+const FENCE_PATTERN = /^\s*(```+)(\S*)/;
+
+/**
+ * Find the code fence left open at the end of `text`, if any.
+ * Returns the opening line's language tag ('' for a bare fence).
+ */
+export function openFence(text: string): string | null {
+  let open: string | null = null;
+  for (const line of text.split('\n')) {
+    const match = line.match(FENCE_PATTERN);
+    if (!match) continue;
+    open = open === null ? match[2] : null;
+  }
+  return open;
+}
+
+/**
+ * Chunk a message into parts that fit Discord's limit without breaking
+ * code fences: a fence open at a chunk boundary is closed at the end of
+ * that chunk and reopened (with its language) at the start of the next.
+ */
+export function chunkMessage(content: string, maxLength = DISCORD_MAX_LENGTH): string[] {
+  if (content.length <= maxLength) {
+    return [content];
+  }
+  if (maxLength <= FENCE_CLOSE_LENGTH * 2) {
+    throw new RangeError(`Chunk length ${maxLength} leaves no room for text`);
+  }
+
+  const chunks: string[] = [];
+  let remaining = content;
+  let reopen = '';
+
+  while (remaining.length > 0) {
+    remaining = reopen + remaining;
+
+    if (remaining.length <= maxLength) {
+      chunks.push(remaining);
+      break;
+    }
+
+    // Leave room to close a fence that is open at the break
+    const limit = maxLength - FENCE_CLOSE_LENGTH;
+
+    // Try to break at a newline
+    let breakPoint = remaining.lastIndexOf('\n', limit);
+    if (breakPoint === -1 || breakPoint < limit / 2) {
+      // No good newline, try space
+      breakPoint = remaining.lastIndexOf(' ', limit);
+    }
+    if (breakPoint === -1 || breakPoint <= reopen.length || breakPoint < limit / 2) {
+      // No good break point, just cut
+      breakPoint = limit;
+    }
+
+    let chunk = remaining.slice(0, breakPoint);
+    const fence = openFence(chunk);
+    if (fence !== null) {
+      chunk = chunk.replace(/\n?$/, '\n```');
+      // A reopened fence must leave room for text, or the chunks never shrink
+      reopen = fence.length + FENCE_CLOSE_LENGTH < limit / 2 ? `\`\`\`${fence}\n` : '';
+    } else {
+      reopen = '';
+    }
+
+    chunks.push(chunk);
+    remaining = remaining.slice(breakPoint);
+    remaining = fence !== null ? remaining.replace(/^\n/, '') : remaining.trimStart();
+  }
+
+  return chunks;
+}
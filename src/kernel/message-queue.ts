@@ -0,0 +1,121 @@
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import type { QueuedMessage, PromptImage } from '../types.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('queue');
+
+const QUEUE_FILE = '.claude-queue.json';
+
+/**
+ * FIFO queue of prompts waiting for the orchestrator to become idle.
+ * Every mutation is written through to disk so pending prompts survive
+ * a kernel restart.
+ */
+export class MessageQueue {
+  private items: QueuedMessage[] = [];
+  private filePath: string;
+
+  constructor(cwd: string, filePath?: string) {
+    this.filePath = filePath ?? join(cwd, QUEUE_FILE);
+    this.load();
+  }
+
+  private load(): void {
+    if (!existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(readFileSync(this.filePath, 'utf-8'));
+      if (Array.isArray(parsed)) {
+        this.items = parsed.filter(
+          (item): item is QueuedMessage =>
+            item && typeof item.id === 'string' && typeof item.message === 'string'
+        );
+      }
+      if (this.items.length > 0) {
+        log.info(`Restored ${this.items.length} queued message(s)`);
+      }
+    } catch (error) {
+      log.error('Failed to load queue file', error);
+    }
+  }
+
+  private save(): void {
+    try {
+      writeFileSync(this.filePath, JSON.stringify(this.items, null, 2), 'utf-8');
+    } catch (error) {
+      log.error('Failed to save queue file', error);
+    }
+  }
+
+  get length(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Snapshot of pending items, front of the queue first
+   */
+  list(): QueuedMessage[] {
+    return [...this.items];
+  }
+
+  enqueue(message: string, images: PromptImage[] = []): QueuedMessage {
+    const item: QueuedMessage = {
+      id: randomUUID().slice(0, 8),
+      message,
+      ...(images.length > 0 ? { images } : {}),
+      queuedAt: new Date().toISOString(),
+    };
+    this.items.push(item);
+    this.save();
+    return item;
+  }
+
+  dequeue(): QueuedMessage | undefined {
+    const item = this.items.shift();
+    if (item) {
+      this.save();
+    }
+    return item;
+  }
+
+  /**
+   * Remove an item by its 1-based position or by ID
+   */
+  remove(ref: string | number): QueuedMessage | undefined {
+    const index = this.indexOf(ref);
+    if (index === -1) return undefined;
+
+    const [item] = this.items.splice(index, 1);
+    this.save();
+    return item;
+  }
+
+  /**
+   * Move an item (by 1-based position or ID) to the front of the queue
+   */
+  moveToFront(ref: string | number): QueuedMessage | undefined {
+    const index = this.indexOf(ref);
+    if (index === -1) return undefined;
+
+    const [item] = this.items.splice(index, 1);
+    this.items.unshift(item);
+    this.save();
+    return item;
+  }
+
+  clear(): void {
+    this.items = [];
+    this.save();
+  }
+
+  private indexOf(ref: string | number): number {
+    if (typeof ref === 'number') {
+      return ref >= 1 && ref <= this.items.length ? ref - 1 : -1;
+    }
+    return this.items.findIndex(item => item.id === ref);
+  }
+}
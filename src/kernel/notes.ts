@@ -0,0 +1,26 @@
+import { appendFileSync } from 'fs';
+import { join } from 'path';
+
+const NOTES_FILE = 'pinned-notes.md';
+
+export interface PinnedResult {
+  // Prompt that produced the result, when the kernel still knows it
+  prompt: string | null;
+  result: string;
+  threadId?: string;
+}
+
+/**
+ * Append a result pinned with a reaction to pinned-notes.md in the working
+ * directory. Returns the file's path.
+ */
+export function appendNote(cwd: string, note: PinnedResult): string {
+  const path = join(cwd, NOTES_FILE);
+  const source = note.threadId ? ` (thread ${note.threadId})` : '';
+  const prompt = note.prompt
+    ? note.prompt.split('\n').map(line => `> ${line}`).join('\n') + '\n\n'
+    : '';
+
+  appendFileSync(path, `## ${new Date().toISOString()}${source}\n\n${prompt}${note.result.trim()}\n\n`, 'utf-8');
+  return path;
+}
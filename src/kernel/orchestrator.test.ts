@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Orchestrator } from './orchestrator.js';
+import { UsageTracker } from './usage.js';
+import { FakeSDK } from '../test/fake-sdk.js';
+import { waitFor } from '../test/fake-transport.js';
+
+let cwd: string;
+let sdk: FakeSDK;
+let orchestrator: Orchestrator;
+
+beforeEach(async () => {
+  cwd = mkdtempSync(join(tmpdir(), 'orchestrator-test-'));
+  sdk = new FakeSDK();
+  orchestrator = new Orchestrator(cwd, { queryProvider: sdk.query, persistSession: false });
+  await orchestrator.initialize();
+});
+
+afterEach(async () => {
+  await orchestrator.shutdown();
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+describe('Orchestrator', () => {
+  it('should leave a replacement query running when the interrupted one winds down', async () => {
+    void orchestrator.send('first');
+    const first = await sdk.nextQuery();
+    first.endOnInterrupt = false;
+
+    await orchestrator.interrupt();
+    void orchestrator.send('second');
+    const second = await sdk.nextQuery();
+    orchestrator.queueMessage('third');
+
+    // The first query only ends now, while the second is running
+    first.end();
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect(orchestrator.getState()).toBe('running');
+    expect(sdk.queries).toHaveLength(2);
+
+    second.result('done');
+    const third = await sdk.nextQuery();
+    expect(await third.promptText()).toBe('third');
+  });
+
+  it('should record each steered turn once, though results report query totals', async () => {
+    await orchestrator.shutdown();
+    const usage = new UsageTracker(cwd, { hardAction: 'queue' });
+    orchestrator = new Orchestrator(cwd, { queryProvider: sdk.query, persistSession: false, steer: true, usage });
+    await orchestrator.initialize();
+    const turns: number[] = [];
+    orchestrator.on('usage', turn => turns.push(turn.costUsd));
+
+    void orchestrator.send('first');
+    const query = await sdk.nextQuery();
+    query.init('session-1');
+    expect(orchestrator.steer('second')).toBe(true);
+    await query.input(1);
+
+    query.result('first done', 0.03);
+    query.result('second done', 0.02);
+    await waitFor(() => turns.length === 2, 2000, 'both results');
+
+    expect(turns.map(cost => cost.toFixed(2))).toEqual(['0.03', '0.02']);
+    expect(usage.getToday()).toMatchObject({ queries: 2, inputTokens: 200, outputTokens: 100 });
+    expect(usage.getToday().costUsd).toBeCloseTo(0.05);
+  });
+});
@@ -1,13 +1,25 @@
 import { EventEmitter } from 'events';
 import { readFileSync, writeFileSync, existsSync, unlinkSync } from 'fs';
 import { join } from 'path';
-
-const SESSION_FILE = '.claude-session';
+import { MessageQueue } from './message-queue.js';
+import { PromptStream, userMessage } from './prompt-stream.js';
+import { loadPolicy, evaluatePolicy, type Policy } from './permissions.js';
+import { BUDGET_REFUSED, type UsageTracker } from './usage.js';
+import type { SessionHistory } from './session-history.js';
+import type { TranscriptStore } from './transcripts.js';
 import type {
   OrchestratorState,
   OrchestratorEvents,
   KernelStatus,
   RestartOptions,
+  QueuedMessage,
+  ApprovalHandler,
+  QuestionHandler,
+  UserQuestion,
+  PromptImage,
+  QueryUsage,
+  McpServerHealth,
+  QueryProgress,
 } from '../types.js';
 
 // Import SDK types
@@ -16,9 +28,22 @@ import type {
   SDKAssistantMessage,
   SDKResultMessage,
   SDKSystemMessage,
+  SDKPartialAssistantMessage,
+  SDKUserMessage,
   Query,
   Options,
+  PermissionResult,
 } from '@anthropic-ai/claude-agent-sdk';
+import { createLogger } from './logger.js';
+
+const log = createLogger('orchestrator');
+
+const SESSION_FILE = '.claude-session';
+const MCP_CONFIG_FILE = '.mcp.json';
+// Claude's clarifying-question tool, answered by the owner instead of the policy
+const ASK_USER_QUESTION = 'AskUserQuestion';
+// Longest gap between idle checks of a running query
+const WATCHDOG_INTERVAL_MS = 5000;
 
 // MCP server config types (matching SDK expectations)
 type McpServerConfig = {
@@ -28,17 +53,32 @@ type McpServerConfig = {
 } | {
   type: 'http';
   url: string;
+  headers?: Record<string, string>;
 } | {
   type: 'sse';
   url: string;
+  headers?: Record<string, string>;
 };
 
 type McpJsonConfig = {
   mcpServers?: Record<string, McpServerConfig>;
 };
 
+/**
+ * The Agent SDK's query(); tests pass a scripted fake instead
+ */
+export type QueryProvider = (params: { prompt: string | AsyncIterable<SDKUserMessage>; options?: Options }) => Query;
+
 // Store SDK function
-let queryFn: ((params: { prompt: string; options?: Options }) => Query) | null = null;
+let queryFn: QueryProvider | null = null;
+
+/**
+ * Build a single-message streaming prompt carrying images as content blocks
+ * (plain string prompts can only carry text)
+ */
+async function* imagePrompt(text: string, images: PromptImage[]): AsyncIterable<SDKUserMessage> {
+  yield userMessage(text, images);
+}
 
 /**
  * Load session ID from file
@@ -48,19 +88,19 @@ function loadSessionId(cwd: string): string | null {
   const sessionFile = join(cwd, SESSION_FILE);
 
   if (!existsSync(sessionFile)) {
-    console.log('[orchestrator] No saved session found');
+    log.info('No saved session found');
     return null;
   }
 
   try {
     const sessionId = readFileSync(sessionFile, 'utf-8').trim();
     if (sessionId) {
-      console.log('[orchestrator] Loaded saved session:', sessionId);
+      log.info('Loaded saved session', sessionId);
       return sessionId;
     }
     return null;
   } catch (error) {
-    console.error('[orchestrator] Failed to load session file:', error);
+    log.error('Failed to load session file', error);
     return null;
   }
 }
@@ -73,9 +113,9 @@ function saveSessionId(cwd: string, sessionId: string): void {
 
   try {
     writeFileSync(sessionFile, sessionId, 'utf-8');
-    console.log('[orchestrator] Saved session:', sessionId);
+    log.info('Saved session', sessionId);
   } catch (error) {
-    console.error('[orchestrator] Failed to save session file:', error);
+    log.error('Failed to save session file', error);
   }
 }
 
@@ -88,10 +128,10 @@ function clearSessionFile(cwd: string): void {
   try {
     if (existsSync(sessionFile)) {
       unlinkSync(sessionFile);
-      console.log('[orchestrator] Cleared saved session file');
+      log.info('Cleared saved session file');
     }
   } catch (error) {
-    console.error('[orchestrator] Failed to clear session file:', error);
+    log.error('Failed to clear session file', error);
   }
 }
 
@@ -100,10 +140,10 @@ function clearSessionFile(cwd: string): void {
  * Returns empty object if file doesn't exist or has errors
  */
 function loadMcpConfig(cwd: string): Record<string, McpServerConfig> {
-  const mcpJsonPath = join(cwd, '.mcp.json');
+  const mcpJsonPath = join(cwd, MCP_CONFIG_FILE);
 
   if (!existsSync(mcpJsonPath)) {
-    console.log('[orchestrator] No .mcp.json found at', mcpJsonPath);
+    log.info('No .mcp.json found at', mcpJsonPath);
     return {};
   }
 
@@ -112,37 +152,41 @@ function loadMcpConfig(cwd: string): Record<string, McpServerConfig> {
     const config: McpJsonConfig = JSON.parse(content);
 
     if (!config.mcpServers || typeof config.mcpServers !== 'object') {
-      console.log('[orchestrator] .mcp.json has no mcpServers field');
+      log.info('.mcp.json has no mcpServers field');
       return {};
     }
 
     const serverCount = Object.keys(config.mcpServers).length;
-    console.log(`[orchestrator] Loaded ${serverCount} MCP server(s) from .mcp.json:`, Object.keys(config.mcpServers));
+    log.info(`Loaded ${serverCount} MCP server(s) from .mcp.json`, Object.keys(config.mcpServers));
     return config.mcpServers;
   } catch (error) {
     if (error instanceof SyntaxError) {
-      console.error('[orchestrator] Failed to parse .mcp.json - invalid JSON:', error.message);
+      log.error('Failed to parse .mcp.json - invalid JSON', error.message);
     } else {
-      console.error('[orchestrator] Failed to load .mcp.json:', error);
+      log.error('Failed to load .mcp.json', error);
     }
     return {};
   }
 }
 
-async function loadAgentSDK(): Promise<void> {
+async function loadAgentSDK(): Promise<QueryProvider> {
+  // Already loaded by another orchestrator instance
+  if (queryFn) return queryFn;
+
   try {
-    console.log('[orchestrator] Loading Agent SDK...');
+    log.info('Loading Agent SDK...');
     const sdk = await import('@anthropic-ai/claude-agent-sdk');
-    console.log('[orchestrator] SDK module keys:', Object.keys(sdk));
+    log.info('SDK module keys', Object.keys(sdk));
 
     if ('query' in sdk && typeof sdk.query === 'function') {
       queryFn = sdk.query;
-      console.log('[orchestrator] Agent SDK V1 API loaded successfully');
+      log.info('Agent SDK V1 API loaded successfully');
+      return queryFn;
     } else {
       throw new Error('Agent SDK query function not found');
     }
   } catch (error) {
-    console.error('[orchestrator] Failed to load Agent SDK:', error);
+    log.error('Failed to load Agent SDK', error);
     throw error;
   }
 }
@@ -158,25 +202,116 @@ export interface Orchestrator {
   ): boolean;
 }
 
+export interface OrchestratorOptions {
+  /**
+   * Persist the session ID to .claude-session (main chat session only).
+   * Thread sessions are persisted by the ThreadSessionManager instead.
+   */
+  persistSession?: boolean;
+  /** Session to resume when not loading from .claude-session */
+  sessionId?: string | null;
+  /** Where to persist queued messages (defaults to .claude-queue.json in cwd) */
+  queueFile?: string;
+  /** Records query cost and enforces daily budgets */
+  usage?: UsageTracker;
+  /** Records every session this orchestrator runs */
+  history?: SessionHistory;
+  /** Records prompts and SDK events per session */
+  transcripts?: TranscriptStore;
+  /** Where sessions came from in the history ('main' or 'thread:<id>') */
+  origin?: string;
+  /** Runs queries instead of the Agent SDK (loaded on initialize otherwise) */
+  queryProvider?: QueryProvider;
+  /** Use streaming prompts so messages can be added to a running query */
+  steer?: boolean;
+  /** Interrupt a query after this long without an SDK event (0 = never) */
+  idleTimeoutMs?: number;
+  /** Same while a tool call is waiting for its result (0 = never) */
+  toolIdleTimeoutMs?: number;
+}
+
 export class Orchestrator extends EventEmitter {
   private state: OrchestratorState = 'idle';
   private sessionId: string | null = null;
   private currentQuery: Query | null = null;
   private startTime: number = Date.now();
   private cwd: string;
-  private queuedMessage: string | null = null;
+  private queue: MessageQueue;
   private mcpServers: Record<string, McpServerConfig> = {};
-
-  constructor(cwd: string = process.cwd()) {
+  // Per-server state from the latest system/init, by server name
+  private mcpHealth: Map<string, McpServerHealth> = new Map();
+  private persistSession: boolean;
+  private policy: Policy;
+  private sessionAllows: Set<string> = new Set();
+  private approvalHandler: ApprovalHandler | null = null;
+  private questionHandler: QuestionHandler | null = null;
+  private usage: UsageTracker | null;
+  private history: SessionHistory | null;
+  private transcripts: TranscriptStore | null;
+  // Prompts sent before a new session has its ID, written once init arrives
+  private pendingPrompts: Array<{ text: string; images: number }> = [];
+  private origin: string;
+  // Prompt of the running query, for the session history
+  private currentPrompt = '';
+  private queryFn: QueryProvider | null;
+  private steerMode: boolean;
+  // Input of the running query in steer mode
+  private input: PromptStream | null = null;
+  // Queued messages wait while paused (new messages still start when idle)
+  private queuePaused = false;
+  private idleTimeoutMs: number;
+  private toolIdleTimeoutMs: number;
+  // Progress of the running query (null when idle)
+  private progress: QueryProgress | null = null;
+  private lastAssistantMessageId: string | null = null;
+  // Tool calls waiting for their result, by ID
+  private runningTools: Map<string, string> = new Map();
+  // canUseTool calls waiting on the owner, which pause the idle clock
+  private ownerWaits = 0;
+  private watchdog: NodeJS.Timeout | null = null;
+  // Bumped by every send(), so a query replaced after an interrupt can tell
+  private queryGeneration = 0;
+  // Query totals from the running query's last result (steered queries have several)
+  private reportedUsage: QueryUsage | null = null;
+
+  constructor(cwd: string = process.cwd(), options: OrchestratorOptions = {}) {
     super();
     this.cwd = cwd;
+    this.persistSession = options.persistSession ?? true;
+    this.sessionId = options.sessionId ?? null;
+    this.queue = new MessageQueue(cwd, options.queueFile);
+    this.usage = options.usage ?? null;
+    this.history = options.history ?? null;
+    this.transcripts = options.transcripts ?? null;
+    this.origin = options.origin ?? 'main';
+    this.queryFn = options.queryProvider ?? null;
+    this.steerMode = options.steer ?? false;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 0;
+    this.toolIdleTimeoutMs = options.toolIdleTimeoutMs ?? 0;
+    this.policy = loadPolicy(cwd);
+  }
+
+  /**
+   * Set the handler used to ask the owner about tools the policy marks "ask"
+   */
+  setApprovalHandler(handler: ApprovalHandler): void {
+    this.approvalHandler = handler;
+  }
+
+  /**
+   * Set the handler that gets the owner's answers to AskUserQuestion
+   */
+  setQuestionHandler(handler: QuestionHandler): void {
+    this.questionHandler = handler;
   }
 
   async initialize(): Promise<void> {
-    await loadAgentSDK();
+    this.queryFn ??= await loadAgentSDK();
     this.mcpServers = loadMcpConfig(this.cwd);
     // Try to resume previous session if one was saved
-    this.sessionId = loadSessionId(this.cwd);
+    if (this.persistSession) {
+      this.sessionId = loadSessionId(this.cwd);
+    }
   }
 
   /**
@@ -186,6 +321,60 @@ export class Orchestrator extends EventEmitter {
     this.mcpServers = loadMcpConfig(this.cwd);
   }
 
+  /**
+   * Path of the .mcp.json this orchestrator loads servers from
+   */
+  getMcpConfigPath(): string {
+    return join(this.cwd, MCP_CONFIG_FILE);
+  }
+
+  /**
+   * Every configured server plus any the last query reported, with its
+   * connection status, tools and last error. Servers no query has reported
+   * yet are 'unknown'.
+   */
+  getMcpServerHealth(): McpServerHealth[] {
+    const names = new Set([...Object.keys(this.mcpServers), ...this.mcpHealth.keys()]);
+    return [...names].map(name => this.mcpHealth.get(name) ?? {
+      name,
+      status: 'unknown',
+      tools: [],
+      lastError: null,
+      lastErrorAt: null,
+      checkedAt: null,
+    });
+  }
+
+  /**
+   * Record the MCP servers reported by a query's system/init. The CLI
+   * reports the status of every server; some versions add an error.
+   */
+  private recordMcpHealth(init: SDKSystemMessage): void {
+    const now = new Date().toISOString();
+    const reported = new Map<string, McpServerHealth>();
+
+    for (const server of init.mcp_servers as Array<{ name: string; status: string; error?: string }>) {
+      const previous = this.mcpHealth.get(server.name);
+      const prefix = `mcp__${server.name}__`;
+      const failed = server.status !== 'connected' && server.status !== 'pending';
+      const error = failed ? server.error ?? `Server status: ${server.status}` : null;
+
+      reported.set(server.name, {
+        name: server.name,
+        status: server.status,
+        tools: init.tools.filter(tool => tool.startsWith(prefix)).map(tool => tool.slice(prefix.length)),
+        lastError: error ?? previous?.lastError ?? null,
+        lastErrorAt: error ? now : previous?.lastErrorAt ?? null,
+        checkedAt: now,
+      });
+      if (failed) {
+        log.warn(`MCP server ${server.name} is ${server.status}`, error);
+      }
+    }
+
+    this.mcpHealth = reported;
+  }
+
   getState(): OrchestratorState {
     return this.state;
   }
@@ -195,6 +384,7 @@ export class Orchestrator extends EventEmitter {
       state: this.state,
       sessionId: this.sessionId ?? undefined,
       uptime: Date.now() - this.startTime,
+      queueDepth: this.queue.length,
     };
   }
 
@@ -210,106 +400,412 @@ export class Orchestrator extends EventEmitter {
    * Check if there's a queued message waiting
    */
   hasQueuedMessage(): boolean {
-    return this.queuedMessage !== null;
+    return this.queue.length > 0;
   }
 
   /**
    * Queue a message to be sent after current task completes
    */
-  queueMessage(message: string): void {
-    this.queuedMessage = message;
-    console.log('Message queued for after current task completes');
+  queueMessage(message: string, images: PromptImage[] = []): QueuedMessage {
+    const item = this.queue.enqueue(message, images);
+    log.info(`Message queued for after current task completes (${item.id}, depth ${this.queue.length})`);
+    return item;
+  }
+
+  /**
+   * List pending queued messages, next to run first
+   */
+  getQueue(): QueuedMessage[] {
+    return this.queue.list();
+  }
+
+  /**
+   * Drop a queued message by 1-based position or ID
+   */
+  removeQueuedMessage(ref: string | number): QueuedMessage | undefined {
+    return this.queue.remove(ref);
+  }
+
+  /**
+   * Move a queued message (by 1-based position or ID) to the front
+   */
+  prioritizeQueuedMessage(ref: string | number): QueuedMessage | undefined {
+    return this.queue.moveToFront(ref);
+  }
+
+  /**
+   * Send the next queued message if idle (e.g. after a restart restored the queue)
+   */
+  async processQueue(): Promise<void> {
+    // Leave the queue in order while the daily budget holds prompts
+    if (this.state === 'running' || this.queuePaused || this.usage?.isBlocked()) return;
+
+    const next = this.queue.dequeue();
+    if (next) {
+      log.info(`Processing queued message ${next.id} (${this.queue.length} remaining)`);
+      await this.send(next.message, next.images ?? []);
+    }
+  }
+
+  /**
+   * Stop starting queued messages until resumeQueue()
+   */
+  pauseQueue(): void {
+    this.queuePaused = true;
+    log.info(`Queue paused (${this.queue.length} waiting)`);
+  }
+
+  /**
+   * Allow queued messages to start again; the caller kicks off processing
+   */
+  resumeQueue(): void {
+    this.queuePaused = false;
+    log.info(`Queue resumed (${this.queue.length} waiting)`);
+  }
+
+  isQueuePaused(): boolean {
+    return this.queuePaused;
+  }
+
+  /**
+   * Elapsed time, turns and tools of the running query, or null when idle
+   */
+  getProgress(): QueryProgress | null {
+    return this.progress ? { ...this.progress } : null;
+  }
+
+  /**
+   * Track a new query's progress and interrupt it once no SDK event has
+   * arrived for idleTimeoutMs, or toolIdleTimeoutMs while a tool call is
+   * waiting for its result (builds and test runs can be silent for long)
+   */
+  private startWatchdog(): void {
+    this.stopWatchdog();
+    const now = Date.now();
+    const progress: QueryProgress = { startedAt: now, lastEventAt: now, turns: 0, lastTool: null, toolRunning: false };
+    this.progress = progress;
+    this.lastAssistantMessageId = null;
+    this.runningTools.clear();
+    const limits = [this.idleTimeoutMs, this.toolIdleTimeoutMs].filter(ms => ms > 0);
+    if (limits.length === 0) return;
+
+    this.watchdog = setInterval(() => {
+      const current = this.progress;
+      if (!current || this.ownerWaits > 0) return;
+      const limit = current.toolRunning ? this.toolIdleTimeoutMs : this.idleTimeoutMs;
+      if (limit <= 0 || Date.now() - current.lastEventAt < limit) return;
+
+      const tool = current.lastTool ? ` (${current.toolRunning ? 'running' : 'last'} tool ${current.lastTool})` : '';
+      log.warn(`No SDK events for ${Math.round((Date.now() - current.lastEventAt) / 1000)}s${tool}, interrupting`);
+      this.stopWatchdog();
+      this.emit('stalled', { ...current });
+      void this.interrupt();
+    }, Math.min(WATCHDOG_INTERVAL_MS, Math.max(Math.min(...limits) / 4, 10)));
+  }
+
+  private stopWatchdog(): void {
+    if (this.watchdog) {
+      clearInterval(this.watchdog);
+      this.watchdog = null;
+    }
+    this.progress = null;
+  }
+
+  /**
+   * Note SDK activity for the watchdog: turns, and which tool is running
+   */
+  private trackProgress(event: SDKMessage): void {
+    const progress = this.progress;
+    if (!progress) return;
+    progress.lastEventAt = Date.now();
+
+    if (event.type === 'assistant' && !event.parent_tool_use_id) {
+      // The SDK emits a message once per content block
+      if (event.message.id !== this.lastAssistantMessageId) {
+        this.lastAssistantMessageId = event.message.id;
+        progress.turns++;
+      }
+      for (const block of event.message.content) {
+        if (block.type === 'tool_use') {
+          this.runningTools.set(block.id, block.name);
+          progress.lastTool = block.name;
+        }
+      }
+    } else if (event.type === 'user' && !event.parent_tool_use_id && Array.isArray(event.message.content)) {
+      for (const block of event.message.content) {
+        if (block.type === 'tool_result') this.runningTools.delete(block.tool_use_id);
+      }
+    }
+
+    const running = [...this.runningTools.values()];
+    progress.toolRunning = running.length > 0;
+    if (progress.toolRunning) progress.lastTool = running[running.length - 1];
+  }
+
+  /**
+   * Usage of the turn a result answers. The SDK reports totals for the whole
+   * query, and in steer mode a query has a result per turn, so earlier
+   * results' totals are taken off.
+   */
+  private turnUsage(totals: QueryUsage): QueryUsage {
+    const previous = this.reportedUsage;
+    this.reportedUsage = totals;
+    if (!previous) return totals;
+    return {
+      ...totals,
+      costUsd: totals.costUsd - previous.costUsd,
+      inputTokens: totals.inputTokens - previous.inputTokens,
+      outputTokens: totals.outputTokens - previous.outputTokens,
+      cacheReadTokens: totals.cacheReadTokens - previous.cacheReadTokens,
+      cacheCreationTokens: totals.cacheCreationTokens - previous.cacheCreationTokens,
+      durationMs: totals.durationMs - previous.durationMs,
+      numTurns: totals.numTurns - previous.numTurns,
+    };
+  }
+
+  /**
+   * Run a wait for the owner (approval, questions) without it counting as idle
+   */
+  private async waitForOwner<T>(wait: Promise<T>): Promise<T> {
+    this.ownerWaits++;
+    try {
+      return await wait;
+    } finally {
+      this.ownerWaits--;
+      if (this.progress) this.progress.lastEventAt = Date.now();
+    }
+  }
+
+  /**
+   * Add a message to the running query as another user turn (steer mode).
+   * Returns false if there is no running query that can take it.
+   */
+  steer(message: string, images: PromptImage[] = []): boolean {
+    if (this.state !== 'running' || !this.input?.push(message, images)) {
+      return false;
+    }
+    this.recordPrompt(message, images.length);
+    log.info('Steering running query', message.substring(0, 100));
+    return true;
   }
 
   /**
    * Interrupt current execution
    */
   async interrupt(): Promise<void> {
+    this.input?.close();
+    this.input = null;
     if (this.currentQuery) {
-      console.log('Interrupting current query...');
+      log.info('Interrupting current query...');
       try {
         await this.currentQuery.interrupt();
       } catch (error) {
-        console.error('Error during interrupt:', error);
+        log.error('Error during interrupt', error);
       }
       this.currentQuery = null;
     }
+    this.stopWatchdog();
     this.setState('idle');
   }
 
   /**
    * Send a message to Claude and stream the response
    */
-  async send(message: string): Promise<void> {
-    if (!queryFn) {
+  async send(message: string, images: PromptImage[] = []): Promise<void> {
+    if (!this.queryFn) {
       throw new Error('Agent SDK not loaded');
     }
 
     if (this.state === 'running') {
       // Queue message for later
-      this.queueMessage(message);
+      this.queueMessage(message, images);
+      return;
+    }
+
+    // Daily hard budget reached: hold or refuse until the owner overrides
+    if (this.usage?.isBlocked()) {
+      if (this.usage.budget.hardAction === 'queue') {
+        log.warn('Daily budget reached, holding message in queue');
+        this.queueMessage(message, images);
+      } else {
+        log.warn('Daily budget reached, refusing message');
+        this.emit('error', new Error(BUDGET_REFUSED));
+      }
       return;
     }
 
     this.setState('running');
+    const generation = ++this.queryGeneration;
+    this.reportedUsage = null;
+    this.startWatchdog();
+    this.currentPrompt = message;
+    this.recordPrompt(message, images.length);
+    const input = this.steerMode ? new PromptStream() : null;
+    this.input = input;
+    // Pick up policy edits on every prompt
+    this.policy = loadPolicy(this.cwd);
 
     try {
-      console.log('[orchestrator] Creating query with prompt:', message.substring(0, 100) + '...');
-      console.log('[orchestrator] Session:', this.sessionId ? `resuming ${this.sessionId}` : 'new session');
-      console.log('[orchestrator] MCP servers:', Object.keys(this.mcpServers).length > 0 ? Object.keys(this.mcpServers) : 'none');
-      console.log('[orchestrator] ENV check - ANTHROPIC_API_KEY:', process.env.ANTHROPIC_API_KEY ? 'SET' : 'NOT SET');
+      log.info('Creating query with prompt', message.substring(0, 100) + '...');
+      if (images.length > 0) {
+        log.info(`Attaching ${images.length} image(s)`);
+      }
+      log.info('Session', this.sessionId ? `resuming ${this.sessionId}` : 'new session');
+      log.info('MCP servers', Object.keys(this.mcpServers).length > 0 ? Object.keys(this.mcpServers) : 'none');
+      log.info('ENV check - ANTHROPIC_API_KEY', process.env.ANTHROPIC_API_KEY ? 'SET' : 'NOT SET');
+
+      // Steerable queries read their turns from a stream that stays open
+      // until every turn has a result
+      let prompt: string | AsyncIterable<SDKUserMessage> = images.length > 0 ? imagePrompt(message, images) : message;
+      if (input) {
+        input.push(message, images);
+        prompt = input;
+      }
 
-      this.currentQuery = queryFn({
-        prompt: message,
+      this.currentQuery = this.queryFn({
+        prompt,
         options: {
           cwd: this.cwd,
           settingSources: ['project', 'local'],
+          // Stream text deltas so Discord can show the response as it is written
+          includePartialMessages: true,
           // Load MCP servers from .mcp.json
           ...(Object.keys(this.mcpServers).length > 0 ? { mcpServers: this.mcpServers } : {}),
           // Resume existing session if we have one
           ...(this.sessionId ? { resume: this.sessionId } : {}),
-          // Auto-approve all tool uses programmatically (works even as root)
-          canUseTool: async (toolName, input, _options) => {
-            console.log(`[orchestrator] Auto-allowing tool: ${toolName}`);
-            return {
-              behavior: 'allow' as const,
-              updatedInput: input,
-            };
-          },
+          // Decide tool uses from .kernel-policy.json (works even as root)
+          // AskUserQuestion waits for the owner's answers (the query pauses meanwhile)
+          canUseTool: async (toolName, input, _options) => this.waitForOwner(toolName === ASK_USER_QUESTION && this.questionHandler
+            ? this.askQuestions(input)
+            : this.checkPermission(toolName, input)),
           stderr: (msg: string) => {
-            console.log('[orchestrator] STDERR:', msg);
+            log.info('STDERR', msg);
           },
         },
       });
 
-      console.log('[orchestrator] Query created, starting iteration...');
+      log.info('Query created, starting iteration...');
       let eventCount = 0;
       for await (const event of this.currentQuery) {
         eventCount++;
-        console.log(`[orchestrator] Event #${eventCount}: type=${event.type}, subtype=${'subtype' in event ? event.subtype : 'n/a'}`);
+        // Partial messages arrive per token, too noisy to log
+        if (event.type !== 'stream_event') {
+          log.info(`Event #${eventCount}: type=${event.type}, subtype=${'subtype' in event ? event.subtype : 'n/a'}`);
+        }
+        this.trackProgress(event);
         await this.processStreamEvent(event);
+        if (this.sessionId) {
+          this.transcripts?.appendEvent(this.sessionId, event);
+        }
       }
-      console.log(`[orchestrator] Query completed, processed ${eventCount} events`);
+      log.info(`Query completed, processed ${eventCount} events`);
 
-      this.currentQuery = null;
+      if (generation === this.queryGeneration) {
+        this.currentQuery = null;
+      }
     } catch (error) {
-      console.error('[orchestrator] Query error:', error);
-      console.error('[orchestrator] Error stack:', error instanceof Error ? error.stack : 'no stack');
+      log.error('Query error', error);
+      log.error('Error stack', error instanceof Error ? error.stack : 'no stack');
       this.emit('error', error instanceof Error ? error : new Error(String(error)));
     } finally {
-      this.setState('idle');
+      input?.close();
+      // After an interrupt a newer query may already be running; leave its
+      // state, watchdog and the queue to it
+      if (generation === this.queryGeneration) {
+        this.input = null;
+        // Never got a session to write them to
+        this.pendingPrompts = [];
+        this.stopWatchdog();
+        this.setState('idle');
+      }
 
-      // Process queued message if any
-      if (this.queuedMessage) {
-        const queued = this.queuedMessage;
-        this.queuedMessage = null;
+      // Process next queued message if any
+      if (generation === this.queryGeneration && this.hasQueuedMessage()) {
         // Small delay before processing queued message
         await new Promise(resolve => setTimeout(resolve, 100));
-        await this.send(queued);
+        await this.processQueue();
       }
     }
   }
 
+  /**
+   * Apply the permission policy to a tool call, asking the owner when needed
+   */
+  private async checkPermission(
+    toolName: string,
+    input: Record<string, unknown>
+  ): Promise<PermissionResult> {
+    const decision = evaluatePolicy(this.policy, toolName, input);
+    let action = decision.action;
+
+    if (action === 'ask' && this.sessionAllows.has(decision.ruleKey)) {
+      action = 'allow';
+    }
+
+    if (action === 'ask') {
+      if (!this.approvalHandler) {
+        log.info(`No approval handler, using default for ${toolName}: ${this.policy.askDefault}`);
+        action = this.policy.askDefault;
+      } else {
+        log.info(`Asking owner about tool: ${toolName}`);
+        const answer = await this.approvalHandler({
+          toolName,
+          input,
+          reason: decision.reason,
+          timeoutMs: this.policy.askTimeoutMs,
+          defaultDecision: this.policy.askDefault,
+        });
+
+        if (answer === 'allow_session') {
+          this.sessionAllows.add(decision.ruleKey);
+        }
+        action = answer === null ? this.policy.askDefault : answer === 'deny' ? 'deny' : 'allow';
+      }
+    }
+
+    if (action === 'deny') {
+      log.info(`Denying tool: ${toolName}`);
+      return {
+        behavior: 'deny',
+        message: `Tool ${toolName} was denied by the kernel permission policy${decision.reason ? ` (${decision.reason})` : ''}`,
+      };
+    }
+
+    log.info(`Allowing tool: ${toolName}`);
+    return {
+      behavior: 'allow',
+      updatedInput: input,
+    };
+  }
+
+  /**
+   * Answer AskUserQuestion through the question handler; the tool runs with
+   * the answers filled in
+   */
+  private async askQuestions(input: Record<string, unknown>): Promise<PermissionResult> {
+    const questions = Array.isArray(input.questions) ? input.questions as UserQuestion[] : [];
+    log.info(`Asking owner ${questions.length} question(s)`);
+    const answers = await this.questionHandler!(questions);
+    log.info('Questions answered', answers);
+    return {
+      behavior: 'allow',
+      updatedInput: { ...input, answers },
+    };
+  }
+
+  /**
+   * Write a prompt to the session's transcript, or hold it until a new
+   * session reports its ID
+   */
+  private recordPrompt(text: string, images: number): void {
+    if (!this.transcripts) return;
+    if (this.sessionId) {
+      this.transcripts.appendPrompt(this.sessionId, text, images);
+    } else {
+      this.pendingPrompts.push({ text, images });
+    }
+  }
+
   /**
    * Process a single stream event
    */
@@ -320,10 +816,18 @@ export class Orchestrator extends EventEmitter {
         if (sysMsg.subtype === 'init') {
           this.sessionId = sysMsg.session_id;
           // Persist session ID for server restarts
-          saveSessionId(this.cwd, this.sessionId);
-          console.log(`[orchestrator] Session initialized: ${this.sessionId}`);
-          console.log(`[orchestrator] Tools: ${sysMsg.tools.join(', ')}`);
-          console.log(`[orchestrator] MCP servers: ${sysMsg.mcp_servers.map(s => `${s.name}(${s.status})`).join(', ')}`);
+          if (this.persistSession) {
+            saveSessionId(this.cwd, this.sessionId);
+          }
+          this.history?.recordStart(this.sessionId, this.currentPrompt, this.origin);
+          for (const prompt of this.pendingPrompts.splice(0)) {
+            this.transcripts?.appendPrompt(this.sessionId, prompt.text, prompt.images);
+          }
+          this.emit('session', this.sessionId);
+          log.info(`Session initialized: ${this.sessionId}`);
+          log.info(`Tools: ${sysMsg.tools.join(', ')}`);
+          log.info(`MCP servers: ${sysMsg.mcp_servers.map(s => `${s.name}(${s.status})`).join(', ')}`);
+          this.recordMcpHealth(sysMsg);
         }
         break;
       }
@@ -338,15 +842,44 @@ export class Orchestrator extends EventEmitter {
         break;
       }
 
+      case 'stream_event': {
+        const streamMsg = event as SDKPartialAssistantMessage;
+        // Only stream the main agent's text, not subagents'
+        if (
+          streamMsg.parent_tool_use_id === null &&
+          streamMsg.event.type === 'content_block_delta' &&
+          streamMsg.event.delta.type === 'text_delta'
+        ) {
+          this.emit('text_delta', streamMsg.event.delta.text);
+        }
+        break;
+      }
+
       case 'result': {
         const resultMsg = event as SDKResultMessage;
+        const usage = this.turnUsage({
+          sessionId: resultMsg.session_id,
+          costUsd: resultMsg.total_cost_usd ?? 0,
+          inputTokens: resultMsg.usage?.input_tokens ?? 0,
+          outputTokens: resultMsg.usage?.output_tokens ?? 0,
+          cacheReadTokens: resultMsg.usage?.cache_read_input_tokens ?? 0,
+          cacheCreationTokens: resultMsg.usage?.cache_creation_input_tokens ?? 0,
+          durationMs: resultMsg.duration_ms,
+          numTurns: resultMsg.num_turns,
+        });
+        this.usage?.record(usage);
+        this.emit('usage', usage);
+
         if (resultMsg.subtype === 'success') {
+          this.history?.recordResult(resultMsg.session_id, resultMsg.result);
           this.emit('result', resultMsg.result);
         } else {
           // Error result
           const errors = 'errors' in resultMsg ? resultMsg.errors : [];
           this.emit('error', new Error(errors.join(', ') || 'Unknown error'));
         }
+        // In steer mode the query ends once every turn has its result
+        this.input?.turnFinished();
         break;
       }
 
@@ -358,10 +891,11 @@ export class Orchestrator extends EventEmitter {
           if (Array.isArray(content)) {
             for (const block of content) {
               if (typeof block === 'object' && block && 'type' in block && block.type === 'tool_result') {
-                const toolResult = block as { tool_use_id: string; content?: unknown };
+                const toolResult = block as { tool_use_id: string; content?: unknown; is_error?: boolean };
                 this.emit('tool_result', {
                   id: toolResult.tool_use_id,
                   content: toolResult.content,
+                  isError: toolResult.is_error ?? false,
                 });
               }
             }
@@ -392,36 +926,73 @@ export class Orchestrator extends EventEmitter {
   }
 
   /**
-   * Restart (clear state and optionally send a new message)
+   * Restart (clear state and optionally send a new message). With resume the
+   * current session is kept, or the most recent one from the history if
+   * there is none; otherwise the next prompt starts a fresh session.
    */
   async restart(options: RestartOptions = {}): Promise<void> {
-    console.log('[orchestrator] Restarting...', options);
+    log.info('Restarting...', options);
 
     // Interrupt any current query
     await this.interrupt();
 
-    // Clear session to start fresh
-    this.sessionId = null;
-    this.queuedMessage = null;
-    clearSessionFile(this.cwd);
+    this.sessionAllows.clear();
+
+    if (options.resume) {
+      const sessionId = this.sessionId ?? this.history?.list(1, this.origin)[0]?.sessionId ?? null;
+      if (sessionId) {
+        this.setSession(sessionId);
+        log.info(`Resuming session ${sessionId}`);
+      } else {
+        log.info('No session to resume, starting fresh');
+      }
+    } else {
+      // Clear session to start fresh
+      this.sessionId = null;
+      this.queue.clear();
+      if (this.persistSession) {
+        clearSessionFile(this.cwd);
+      }
+      log.info('Session cleared, ready for new conversation');
+    }
 
     // Reload MCP config in case it changed
     this.reloadMcpConfig();
     this.setState('idle');
 
-    console.log('[orchestrator] Session cleared, ready for new conversation');
-
     // Send kickoff message if provided
     if (options.message) {
       await this.send(options.message);
     }
   }
 
+  /**
+   * Switch to an existing SDK session; the next prompt resumes it
+   */
+  async resumeSession(sessionId: string): Promise<void> {
+    log.info('Switching to session', sessionId);
+
+    await this.interrupt();
+    this.sessionAllows.clear();
+    this.setSession(sessionId);
+  }
+
+  /**
+   * Make a session current so the next prompt resumes it
+   */
+  private setSession(sessionId: string): void {
+    this.sessionId = sessionId;
+    if (this.persistSession) {
+      saveSessionId(this.cwd, sessionId);
+    }
+    this.emit('session', sessionId);
+  }
+
   /**
    * Clean shutdown
    */
   async shutdown(): Promise<void> {
-    console.log('Shutting down orchestrator...');
+    log.info('Shutting down orchestrator...');
     await this.interrupt();
     this.setState('idle');
   }
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { evaluatePolicy, loadPolicy, matchesPattern, type Policy } from './permissions.js';
+
+describe('matchesPattern', () => {
+  it('should match globs against the whole value', () => {
+    expect(matchesPattern('Bash', 'Bash')).toBe(true);
+    expect(matchesPattern('Bash', 'BashOutput')).toBe(false);
+    expect(matchesPattern('mcp__playwright__*', 'mcp__playwright__browser_click')).toBe(true);
+    expect(matchesPattern('mcp__playwright__*', 'mcp__kernel__get_logs')).toBe(false);
+    expect(matchesPattern('Read?', 'Reads')).toBe(true);
+    expect(matchesPattern('Read?', 'Read')).toBe(false);
+  });
+
+  it('should treat regex characters in globs literally', () => {
+    expect(matchesPattern('rm -rf .', 'rm -rf .')).toBe(true);
+    expect(matchesPattern('rm -rf .', 'rm -rf x')).toBe(false);
+    expect(matchesPattern('echo (a|b)', 'echo a')).toBe(false);
+  });
+
+  it('should match /regex/flags patterns anywhere in the value', () => {
+    expect(matchesPattern('/git\\s+push/', 'cd repo && git  push origin')).toBe(true);
+    expect(matchesPattern('/^GIT/i', 'git status')).toBe(true);
+    expect(matchesPattern('/^GIT/', 'git status')).toBe(false);
+  });
+
+  it('should match non-string values as JSON', () => {
+    expect(matchesPattern('*"force":true*', { force: true })).toBe(true);
+  });
+
+  it('should not match with an invalid regex', () => {
+    expect(matchesPattern('/(unclosed/', '(unclosed')).toBe(false);
+  });
+});
+
+describe('evaluatePolicy', () => {
+  const policy: Policy = {
+    default: 'allow',
+    rules: [
+      { tool: 'Bash', input: { command: 'git push*' }, action: 'ask' },
+      { tool: 'Bash', input: { command: '/rm\\s+-rf/' }, action: 'deny', reason: 'no recursive deletes' },
+      { tool: 'mcp__playwright__*', action: 'allow' },
+    ],
+    askTimeoutMs: 1000,
+    askDefault: 'deny',
+  };
+
+  it('should return the first matching rule', () => {
+    expect(evaluatePolicy(policy, 'Bash', { command: 'git push origin main' })).toEqual({
+      action: 'ask',
+      ruleKey: 'rule:0',
+      reason: 'Bash {"command":"git push*"}',
+    });
+    expect(evaluatePolicy(policy, 'Bash', { command: 'sudo rm -rf /' })).toMatchObject({
+      action: 'deny',
+      ruleKey: 'rule:1',
+      reason: 'no recursive deletes',
+    });
+  });
+
+  it('should skip rules whose input field is missing', () => {
+    expect(evaluatePolicy(policy, 'Bash', {})).toEqual({ action: 'allow', ruleKey: 'default:Bash' });
+  });
+
+  it('should fall back to the default, scoped per tool', () => {
+    expect(evaluatePolicy(policy, 'Bash', { command: 'ls' })).toEqual({ action: 'allow', ruleKey: 'default:Bash' });
+    expect(evaluatePolicy({ ...policy, default: 'ask' }, 'Write', {})).toEqual({ action: 'ask', ruleKey: 'default:Write' });
+  });
+});
+
+describe('loadPolicy', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'permissions-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('should allow everything without a policy file', () => {
+    expect(loadPolicy(cwd)).toMatchObject({ default: 'allow', rules: [] });
+  });
+
+  it('should load a valid policy file', () => {
+    writeFileSync(join(cwd, '.kernel-policy.json'), JSON.stringify({
+      default: 'deny',
+      rules: [{ tool: 'Read', action: 'allow' }],
+    }));
+    expect(loadPolicy(cwd)).toMatchObject({ default: 'deny', rules: [{ tool: 'Read', action: 'allow' }], askDefault: 'deny' });
+  });
+
+  it('should fail closed on an invalid policy', () => {
+    writeFileSync(join(cwd, '.kernel-policy.json'), JSON.stringify({ rules: [{ tool: 'Bash', action: 'maybe' }] }));
+    expect(loadPolicy(cwd)).toMatchObject({ default: 'ask', rules: [] });
+  });
+
+  it('should fail closed on unparseable JSON', () => {
+    writeFileSync(join(cwd, '.kernel-policy.json'), '{ "default": "allow",');
+    expect(loadPolicy(cwd)).toMatchObject({ default: 'ask', rules: [] });
+  });
+});
@@ -0,0 +1,124 @@
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { z } from 'zod';
+import { createLogger } from './logger.js';
+
+const log = createLogger('permissions');
+
+const POLICY_FILE = '.kernel-policy.json';
+
+const actionSchema = z.enum(['allow', 'deny', 'ask']);
+
+const ruleSchema = z.object({
+  // Tool name pattern, e.g. "Bash", "mcp__playwright__*"
+  tool: z.string().min(1),
+  // Tool input field -> pattern, all must match (e.g. { "command": "git push*" })
+  input: z.record(z.string()).optional(),
+  action: actionSchema,
+  reason: z.string().optional(),
+});
+
+const policySchema = z.object({
+  default: actionSchema.default('allow'),
+  rules: z.array(ruleSchema).default([]),
+  // How long to wait for the owner on "ask" before falling back to askDefault
+  askTimeoutMs: z.number().int().positive().default(5 * 60 * 1000),
+  askDefault: z.enum(['allow', 'deny']).default('deny'),
+});
+
+export type PolicyAction = z.infer<typeof actionSchema>;
+export type PolicyRule = z.infer<typeof ruleSchema>;
+export type Policy = z.infer<typeof policySchema>;
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  // Stable key for the rule that matched, used for "allow for session"
+  ruleKey: string;
+  reason?: string;
+}
+
+/**
+ * Load tool permission policy from .kernel-policy.json
+ * Without a policy file every tool is allowed (the previous behavior)
+ */
+export function loadPolicy(cwd: string): Policy {
+  const policyPath = join(cwd, POLICY_FILE);
+  const fallback = policySchema.parse({});
+
+  if (!existsSync(policyPath)) {
+    return fallback;
+  }
+
+  try {
+    const result = policySchema.safeParse(JSON.parse(readFileSync(policyPath, 'utf-8')));
+    if (!result.success) {
+      log.error(`Invalid ${POLICY_FILE}:`);
+      for (const error of result.error.errors) {
+        log.error(`  - ${error.path.join('.')}: ${error.message}`);
+      }
+      // Fail closed: an unreadable policy should not silently allow everything
+      return { ...fallback, default: 'ask' };
+    }
+    return result.data;
+  } catch (error) {
+    log.error(`Failed to load ${POLICY_FILE}`, error);
+    return { ...fallback, default: 'ask' };
+  }
+}
+
+/**
+ * Compile a pattern: "/regex/flags" is a regular expression, anything else
+ * is a glob where `*` matches any run of characters and `?` a single one.
+ */
+function compilePattern(pattern: string): RegExp {
+  const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexMatch) {
+    return new RegExp(regexMatch[1], regexMatch[2]);
+  }
+
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*+/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`);
+}
+
+export function matchesPattern(pattern: string, value: unknown): boolean {
+  const text = typeof value === 'string' ? value : JSON.stringify(value ?? '');
+  try {
+    return compilePattern(pattern).test(text);
+  } catch (error) {
+    log.error(`Invalid pattern ${pattern}`, error);
+    return false;
+  }
+}
+
+/**
+ * Find the first rule matching a tool call, falling back to the policy default
+ */
+export function evaluatePolicy(
+  policy: Policy,
+  toolName: string,
+  input: Record<string, unknown>
+): PolicyDecision {
+  for (const [index, rule] of policy.rules.entries()) {
+    if (!matchesPattern(rule.tool, toolName)) continue;
+
+    const inputMatches = Object.entries(rule.input ?? {}).every(
+      ([field, pattern]) => field in input && matchesPattern(pattern, input[field])
+    );
+    if (!inputMatches) continue;
+
+    return {
+      action: rule.action,
+      ruleKey: `rule:${index}`,
+      reason: rule.reason ?? `${rule.tool}${rule.input ? ` ${JSON.stringify(rule.input)}` : ''}`,
+    };
+  }
+
+  // Default decisions are scoped per tool so "allow for session" stays narrow
+  return {
+    action: policy.default,
+    ruleKey: `default:${toolName}`,
+  };
+}
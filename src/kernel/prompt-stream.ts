@@ -0,0 +1,79 @@
+import type { SDKUserMessage } from '@anthropic-ai/claude-agent-sdk';
+import type { PromptImage } from '../types.js';
+
+/**
+ * A user turn for a streaming prompt, with images as content blocks
+ */
+export function userMessage(text: string, images: PromptImage[] = []): SDKUserMessage {
+  return {
+    type: 'user',
+    message: {
+      role: 'user',
+      content: [
+        ...images.map(image => ({
+          type: 'image' as const,
+          source: {
+            type: 'base64' as const,
+            media_type: image.mediaType as 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp',
+            data: image.data,
+          },
+        })),
+        { type: 'text' as const, text: text || 'See the attached image(s).' },
+      ],
+    },
+    parent_tool_use_id: null,
+    session_id: '',
+  };
+}
+
+/**
+ * Streaming prompt for a steerable query. The query stays open while it
+ * has turns without a result, so messages pushed meanwhile reach Claude as
+ * extra user turns; once the last turn is answered the stream ends and the
+ * query finishes.
+ */
+export class PromptStream implements AsyncIterable<SDKUserMessage> {
+  private pending: SDKUserMessage[] = [];
+  private openTurns = 0;
+  private closed = false;
+  private wake: (() => void) | null = null;
+
+  /**
+   * Add a user turn. Returns false once the stream has closed.
+   */
+  push(text: string, images: PromptImage[] = []): boolean {
+    if (this.closed) return false;
+    this.pending.push(userMessage(text, images));
+    this.openTurns++;
+    this.wake?.();
+    return true;
+  }
+
+  /**
+   * Note that a turn got its result; closes the stream after the last one
+   */
+  turnFinished(): void {
+    this.openTurns = Math.max(0, this.openTurns - 1);
+    if (this.openTurns === 0) {
+      this.close();
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    this.wake?.();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<SDKUserMessage> {
+    while (true) {
+      const next = this.pending.shift();
+      if (next) {
+        yield next;
+        continue;
+      }
+      if (this.closed) return;
+      await new Promise<void>((resolve) => { this.wake = resolve; });
+      this.wake = null;
+    }
+  }
+}
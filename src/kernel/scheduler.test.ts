@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Scheduler } from './scheduler.js';
+import type { ScheduledPrompt } from '../types.js';
+
+let cwd: string;
+let scheduler: Scheduler;
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), 'scheduler-test-'));
+  vi.useFakeTimers({ toFake: ['Date', 'setTimeout', 'clearTimeout'] });
+  vi.setSystemTime(new Date('2026-03-14T12:00:00Z'));
+  scheduler = new Scheduler(cwd);
+});
+
+afterEach(() => {
+  scheduler.stop();
+  vi.useRealTimers();
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+describe('Scheduler', () => {
+  it('should compute the next run of a cron schedule in its timezone', () => {
+    scheduler.start();
+    scheduler.add({ prompt: 'utc', cron: '0 9 * * *' });
+    scheduler.add({ prompt: 'tokyo', cron: '0 9 * * *', timezone: 'Asia/Tokyo' });
+
+    expect(scheduler.list().map(({ prompt, nextRunAt }) => ({ prompt, nextRunAt }))).toEqual([
+      // 09:00 in Tokyo is 00:00 UTC
+      { prompt: 'tokyo', nextRunAt: '2026-03-15T00:00:00.000Z' },
+      { prompt: 'utc', nextRunAt: '2026-03-15T09:00:00.000Z' },
+    ]);
+  });
+
+  it('should list one-shot schedules at their time, soonest first', () => {
+    scheduler.start();
+    scheduler.add({ prompt: 'later', runAt: '2026-03-20T08:00:00Z' });
+    scheduler.add({ prompt: 'hourly', cron: '0 * * * *' });
+    scheduler.add({ prompt: 'soon', runAt: '2026-03-14T12:30:00Z' });
+
+    expect(scheduler.list().map(({ prompt, nextRunAt }) => [prompt, nextRunAt])).toEqual([
+      ['soon', '2026-03-14T12:30:00.000Z'],
+      ['hourly', '2026-03-14T13:00:00.000Z'],
+      ['later', '2026-03-20T08:00:00.000Z'],
+    ]);
+  });
+
+  it('should fire a one-shot schedule once and drop it', () => {
+    const fired = vi.fn();
+    scheduler.on('fire', fired);
+    scheduler.start();
+    scheduler.add({ prompt: 'remind me', runAt: '2026-03-14T12:30:00Z' });
+
+    vi.advanceTimersByTime(30 * 60 * 1000);
+    expect(fired).toHaveBeenCalledOnce();
+    expect(fired.mock.calls[0][0]).toMatchObject({ prompt: 'remind me' });
+    expect(scheduler.list()).toEqual([]);
+  });
+
+  it('should fire one-shot schedules that came due while stopped', async () => {
+    const overdue: ScheduledPrompt = {
+      id: 'overdue1',
+      prompt: 'missed',
+      runAt: '2026-03-14T11:00:00.000Z',
+      createdAt: '2026-03-14T10:00:00.000Z',
+      lastRunAt: null,
+    };
+    writeFileSync(join(cwd, '.kernel-schedules.json'), JSON.stringify([overdue]));
+
+    const restarted = new Scheduler(cwd);
+    const fired = new Promise<ScheduledPrompt>(resolve => restarted.on('fire', resolve));
+    restarted.start();
+
+    expect(await fired).toMatchObject({ id: 'overdue1' });
+    expect(restarted.list()).toEqual([]);
+  });
+
+  it('should reject invalid schedules', () => {
+    expect(() => scheduler.add({ prompt: ' ', cron: '* * * * *' })).toThrow('prompt is required');
+    expect(() => scheduler.add({ prompt: 'x' })).toThrow('either a cron expression or a one-shot time');
+    expect(() => scheduler.add({ prompt: 'x', cron: '* * * * *', runAt: '2026-03-15T00:00:00Z' })).toThrow();
+    expect(() => scheduler.add({ prompt: 'x', cron: 'not a cron' })).toThrow();
+    expect(() => scheduler.add({ prompt: 'x', runAt: 'tomorrow-ish' })).toThrow('Invalid time');
+    expect(() => scheduler.add({ prompt: 'x', runAt: '2026-03-14T11:00:00Z' })).toThrow('Time is in the past');
+    expect(scheduler.list()).toEqual([]);
+  });
+});
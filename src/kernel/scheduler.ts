@@ -0,0 +1,193 @@
+import { EventEmitter } from 'events';
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { Cron } from 'croner';
+import { createLogger } from './logger.js';
+import type { ScheduledPrompt } from '../types.js';
+
+const log = createLogger('scheduler');
+
+const SCHEDULE_FILE = '.kernel-schedules.json';
+
+export interface ScheduleRequest {
+  prompt: string;
+  cron?: string;
+  // One-shot time as an ISO timestamp
+  runAt?: string;
+  timezone?: string;
+  threadId?: string;
+}
+
+export interface Scheduler {
+  on(event: 'fire', listener: (schedule: ScheduledPrompt) => void): this;
+  emit(event: 'fire', schedule: ScheduledPrompt): boolean;
+}
+
+/**
+ * Prompts Claude scheduled for itself, persisted to .kernel-schedules.json.
+ * Cron schedules repeat; one-shot schedules are removed once they fire, and
+ * ones that came due while the kernel was down fire on start.
+ */
+export class Scheduler extends EventEmitter {
+  private filePath: string;
+  private schedules: ScheduledPrompt[] = [];
+  private jobs: Map<string, Cron> = new Map();
+  private started = false;
+
+  constructor(cwd: string) {
+    super();
+    this.filePath = join(cwd, SCHEDULE_FILE);
+    this.load();
+  }
+
+  private load(): void {
+    if (!existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(readFileSync(this.filePath, 'utf-8'));
+      if (Array.isArray(parsed)) {
+        this.schedules = parsed.filter(
+          (entry): entry is ScheduledPrompt =>
+            typeof entry?.id === 'string' && typeof entry.prompt === 'string' && (!!entry.cron || !!entry.runAt)
+        );
+      }
+    } catch (error) {
+      log.error('Failed to load schedules', error);
+    }
+  }
+
+  private save(): void {
+    try {
+      writeFileSync(this.filePath, JSON.stringify(this.schedules, null, 2), 'utf-8');
+    } catch (error) {
+      log.error('Failed to save schedules', error);
+    }
+  }
+
+  /**
+   * Arm every persisted schedule
+   */
+  start(): void {
+    this.started = true;
+    for (const schedule of [...this.schedules]) {
+      this.arm(schedule);
+    }
+    if (this.schedules.length > 0) {
+      log.info(`Armed ${this.schedules.length} schedule(s)`);
+    }
+  }
+
+  stop(): void {
+    this.started = false;
+    for (const job of this.jobs.values()) {
+      job.stop();
+    }
+    this.jobs.clear();
+  }
+
+  /**
+   * Validate and persist a new schedule. Throws on a bad cron expression,
+   * a time in the past, or when not exactly one of cron/runAt is given.
+   */
+  add(request: ScheduleRequest): ScheduledPrompt {
+    const prompt = request.prompt.trim();
+    if (!prompt) {
+      throw new Error('prompt is required');
+    }
+    if (!!request.cron === !!request.runAt) {
+      throw new Error('Give either a cron expression or a one-shot time, not both');
+    }
+
+    let runAt: string | undefined;
+    if (request.cron) {
+      // Throws on an invalid expression or timezone
+      new Cron(request.cron, { timezone: request.timezone ?? 'UTC', paused: true }).stop();
+    } else {
+      const time = new Date(request.runAt!);
+      if (isNaN(time.getTime())) {
+        throw new Error(`Invalid time: ${request.runAt}`);
+      }
+      if (time.getTime() <= Date.now()) {
+        throw new Error(`Time is in the past: ${time.toISOString()}`);
+      }
+      runAt = time.toISOString();
+    }
+
+    const schedule: ScheduledPrompt = {
+      id: randomUUID().slice(0, 8),
+      prompt,
+      ...(request.cron ? { cron: request.cron, timezone: request.timezone ?? 'UTC' } : { runAt }),
+      ...(request.threadId ? { threadId: request.threadId } : {}),
+      createdAt: new Date().toISOString(),
+      lastRunAt: null,
+    };
+    this.schedules.push(schedule);
+    this.save();
+    if (this.started) {
+      this.arm(schedule);
+    }
+
+    log.info(`Scheduled ${schedule.id}: ${schedule.cron ?? schedule.runAt}`);
+    return schedule;
+  }
+
+  /**
+   * Schedules with their next run time, soonest first
+   */
+  list(): Array<ScheduledPrompt & { nextRunAt: string | null }> {
+    return this.schedules
+      .map(schedule => ({ ...schedule, nextRunAt: this.nextRun(schedule) }))
+      .sort((a, b) => (a.nextRunAt ?? '').localeCompare(b.nextRunAt ?? ''));
+  }
+
+  cancel(id: string): ScheduledPrompt | undefined {
+    const index = this.schedules.findIndex(schedule => schedule.id === id);
+    if (index === -1) return undefined;
+
+    const [schedule] = this.schedules.splice(index, 1);
+    this.jobs.get(id)?.stop();
+    this.jobs.delete(id);
+    this.save();
+    log.info(`Cancelled schedule ${id}`);
+    return schedule;
+  }
+
+  private nextRun(schedule: ScheduledPrompt): string | null {
+    const job = this.jobs.get(schedule.id);
+    if (job) return job.nextRun()?.toISOString() ?? null;
+    return schedule.runAt ?? null;
+  }
+
+  private arm(schedule: ScheduledPrompt): void {
+    try {
+      if (schedule.cron) {
+        this.jobs.set(schedule.id, new Cron(schedule.cron, { timezone: schedule.timezone ?? 'UTC' }, () => this.fire(schedule)));
+      } else if (new Date(schedule.runAt!).getTime() <= Date.now()) {
+        // Came due while the kernel was down
+        setImmediate(() => this.fire(schedule));
+      } else {
+        this.jobs.set(schedule.id, new Cron(new Date(schedule.runAt!), () => this.fire(schedule)));
+      }
+    } catch (error) {
+      log.error(`Failed to arm schedule ${schedule.id}`, error);
+    }
+  }
+
+  private fire(schedule: ScheduledPrompt): void {
+    // Cancelled between arming and firing
+    if (!this.schedules.includes(schedule)) return;
+
+    log.info(`Schedule ${schedule.id} fired`);
+    if (schedule.cron) {
+      schedule.lastRunAt = new Date().toISOString();
+    } else {
+      this.schedules = this.schedules.filter(entry => entry !== schedule);
+      this.jobs.delete(schedule.id);
+    }
+    this.save();
+    this.emit('fire', schedule);
+  }
+}
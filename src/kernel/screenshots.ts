@@ -0,0 +1,199 @@
+import { createHash } from 'crypto';
+import { createLogger } from './logger.js';
+import type { OutgoingFile } from './transport.js';
+
+const log = createLogger('screenshots');
+
+// Discord allows at most 10 attachments per message
+const MAX_ATTACHMENTS = 10;
+// Hashes remembered for duplicate detection
+const SEEN_LIMIT = 500;
+// Tool results wrap JSON in text blocks; don't chase nesting forever
+const MAX_DEPTH = 4;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+export interface ExtractedImage {
+  data: Buffer;
+  mediaType: string;
+  // sha256 of the decoded bytes
+  hash: string;
+}
+
+export interface ScreenshotPost {
+  images: OutgoingFile[];
+  caption: string;
+}
+
+function toImage(base64: string, mediaType = 'image/png'): ExtractedImage | null {
+  // Accept data URLs as well as bare base64
+  const dataUrl = /^data:(image\/[\w.+-]+);base64,(.*)$/s.exec(base64);
+  const data = Buffer.from(dataUrl ? dataUrl[2] : base64, 'base64');
+  if (data.length === 0) return null;
+
+  return {
+    data,
+    mediaType: dataUrl ? dataUrl[1] : mediaType,
+    hash: createHash('sha256').update(data).digest('hex'),
+  };
+}
+
+function collect(value: unknown, images: ExtractedImage[], depth: number): void {
+  if (depth > MAX_DEPTH || value === null || value === undefined) return;
+
+  if (typeof value === 'string') {
+    // Some MCP servers return their result as a JSON string
+    const trimmed = value.trim();
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+      try {
+        collect(JSON.parse(trimmed), images, depth + 1);
+      } catch {
+        // Plain text
+      }
+    }
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      collect(item, images, depth + 1);
+    }
+    return;
+  }
+
+  if (typeof value !== 'object') return;
+  const block = value as Record<string, any>;
+
+  // Computer-use MCP: { output_image: '<base64>' }
+  if (typeof block.output_image === 'string') {
+    const image = toImage(block.output_image);
+    if (image) images.push(image);
+    return;
+  }
+
+  if (block.type === 'image') {
+    // MCP image content: { type: 'image', data, mimeType }
+    if (typeof block.data === 'string') {
+      const image = toImage(block.data, block.mimeType);
+      if (image) images.push(image);
+      return;
+    }
+    // Anthropic image block: { type: 'image', source: { type: 'base64', media_type, data } }
+    if (block.source?.type === 'base64' && typeof block.source.data === 'string') {
+      const image = toImage(block.source.data, block.source.media_type);
+      if (image) images.push(image);
+      return;
+    }
+  }
+
+  if (block.type === 'text' && typeof block.text === 'string') {
+    collect(block.text, images, depth + 1);
+    return;
+  }
+
+  // Results wrapped in { content: [...] }
+  if ('content' in block) {
+    collect(block.content, images, depth + 1);
+  }
+}
+
+/**
+ * Find every image in a tool result, whatever shape the tool returned it in
+ */
+export function extractImages(content: unknown): ExtractedImage[] {
+  const images: ExtractedImage[] = [];
+  collect(content, images, 0);
+  return images;
+}
+
+/**
+ * Collects images from tool results per session and posts each turn's
+ * images together, captioned with the tools that produced them. Images
+ * already posted (same bytes) are skipped.
+ */
+export class ScreenshotBatcher {
+  private post: (key: string, batch: ScreenshotPost) => Promise<void>;
+  private toolNames: Map<string, string> = new Map();
+  private pending: Map<string, Array<{ image: ExtractedImage; tool: string }>> = new Map();
+  private seen: Set<string> = new Set();
+
+  constructor(post: (key: string, batch: ScreenshotPost) => Promise<void>) {
+    this.post = post;
+  }
+
+  /**
+   * Remember which tool a tool_use ID belongs to, for captions
+   */
+  noteToolUse(id: string, name: string): void {
+    this.toolNames.set(id, name);
+  }
+
+  /**
+   * Extract images from a tool result and hold them for the session's
+   * next flush. Returns how many new images were found.
+   */
+  add(key: string, toolUseId: string, content: unknown): number {
+    const tool = this.toolNames.get(toolUseId) ?? 'unknown tool';
+    this.toolNames.delete(toolUseId);
+
+    let added = 0;
+    for (const image of extractImages(content)) {
+      if (this.seen.has(image.hash)) {
+        log.debug(`Skipping duplicate image from ${tool} (${image.hash.substring(0, 12)})`);
+        continue;
+      }
+      this.remember(image.hash);
+
+      const pending = this.pending.get(key) ?? [];
+      pending.push({ image, tool });
+      this.pending.set(key, pending);
+      added++;
+    }
+    return added;
+  }
+
+  /**
+   * Post a session's held images, at most 10 attachments per message
+   */
+  async flush(key: string): Promise<void> {
+    const pending = this.pending.get(key);
+    if (!pending || pending.length === 0) return;
+    this.pending.delete(key);
+
+    for (let start = 0; start < pending.length; start += MAX_ATTACHMENTS) {
+      const group = pending.slice(start, start + MAX_ATTACHMENTS);
+      const counts = new Map<string, number>();
+      for (const { tool } of group) {
+        counts.set(tool, (counts.get(tool) ?? 0) + 1);
+      }
+      const tools = [...counts].map(([name, count]) => count > 1 ? `\`${name}\` ×${count}` : `\`${name}\``);
+
+      try {
+        await this.post(key, {
+          images: group.map(({ image }, i) => ({
+            data: image.data,
+            name: `screenshot-${start + i + 1}.${EXTENSIONS[image.mediaType] ?? 'png'}`,
+          })),
+          caption: `🖥️ ${tools.join(', ')}`,
+        });
+        log.info(`Posted ${group.length} screenshot(s) from ${[...counts.keys()].join(', ')}`);
+      } catch (error) {
+        log.error('Failed to post screenshots', error);
+      }
+    }
+  }
+
+  private remember(hash: string): void {
+    this.seen.add(hash);
+    // Sets iterate in insertion order, so the first entry is the oldest
+    if (this.seen.size > SEEN_LIMIT) {
+      const oldest = this.seen.values().next().value;
+      if (oldest !== undefined) this.seen.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { SessionHistory } from './session-history.js';
+
+let cwd: string;
+let history: SessionHistory;
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), 'sessions-test-'));
+  history = new SessionHistory(cwd);
+  history.recordStart('aaaa1111-0000-4000-8000-000000000001', 'first prompt', 'main');
+  history.recordStart('bbbb2222-0000-4000-8000-000000000002', 'second prompt', 'thread:42');
+});
+
+afterEach(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+describe('SessionHistory', () => {
+  it('should resolve sessions by position, full ID and unique prefix', () => {
+    const [latest] = history.list(1);
+    expect(history.resolve('1')).toEqual(latest);
+    expect(history.resolve('aaaa1111-0000-4000-8000-000000000001')?.firstPrompt).toBe('first prompt');
+    expect(history.resolve('bbbb')?.origin).toBe('thread:42');
+  });
+
+  it('should not resolve IDs the kernel never ran', () => {
+    expect(history.resolve('cccc3333-0000-4000-8000-000000000003')).toBeUndefined();
+    expect(history.resolve('3')).toBeUndefined();
+    expect(history.resolve('zzz')).toBeUndefined();
+  });
+
+  it('should not resolve an empty reference', () => {
+    const single = new SessionHistory(mkdtempSync(join(cwd, 'single-')));
+    single.recordStart('aaaa1111-0000-4000-8000-000000000001', 'only prompt', 'main');
+    expect(single.resolve('')).toBeUndefined();
+    expect(single.resolve('  ')).toBeUndefined();
+    expect(single.resolve(' aaaa ')?.firstPrompt).toBe('only prompt');
+  });
+
+  it('should keep sessions across restarts', () => {
+    history.recordResult('aaaa1111-0000-4000-8000-000000000001', 'all done');
+    const reloaded = new SessionHistory(cwd);
+    expect(reloaded.get('aaaa1111-0000-4000-8000-000000000001')?.lastResult).toBe('all done');
+  });
+});
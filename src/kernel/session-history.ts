@@ -0,0 +1,129 @@
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { createLogger } from './logger.js';
+import type { SessionHistoryEntry } from '../types.js';
+
+const log = createLogger('sessions');
+
+const HISTORY_FILE = '.claude-sessions.json';
+// Oldest sessions are dropped past this many entries
+const HISTORY_LIMIT = 200;
+const SNIPPET_LENGTH = 200;
+
+function snippet(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > SNIPPET_LENGTH ? flat.substring(0, SNIPPET_LENGTH) + '...' : flat;
+}
+
+/**
+ * Every SDK session the kernel has run, persisted to .claude-sessions.json,
+ * so earlier conversations can be listed and resumed.
+ */
+export class SessionHistory {
+  private filePath: string;
+  private entries: SessionHistoryEntry[] = [];
+
+  constructor(cwd: string) {
+    this.filePath = join(cwd, HISTORY_FILE);
+    this.load();
+  }
+
+  private load(): void {
+    if (!existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(readFileSync(this.filePath, 'utf-8'));
+      if (Array.isArray(parsed)) {
+        this.entries = parsed.filter(
+          (entry): entry is SessionHistoryEntry => typeof entry?.sessionId === 'string'
+        );
+      }
+    } catch (error) {
+      log.error('Failed to load session history', error);
+    }
+  }
+
+  private save(): void {
+    try {
+      writeFileSync(this.filePath, JSON.stringify(this.entries, null, 2), 'utf-8');
+    } catch (error) {
+      log.error('Failed to save session history', error);
+    }
+  }
+
+  /**
+   * Note that a query ran in a session, creating its entry on first use
+   */
+  recordStart(sessionId: string, prompt: string, origin: string): void {
+    const now = new Date().toISOString();
+    const entry = this.get(sessionId);
+
+    if (entry) {
+      entry.lastActiveAt = now;
+    } else {
+      this.entries.push({
+        sessionId,
+        origin,
+        startedAt: now,
+        lastActiveAt: now,
+        firstPrompt: snippet(prompt),
+        lastResult: null,
+      });
+      this.entries = this.entries.slice(-HISTORY_LIMIT);
+      log.info(`New session recorded: ${sessionId} (${origin})`);
+    }
+
+    this.save();
+  }
+
+  /**
+   * Keep the start of the latest result for listings
+   */
+  recordResult(sessionId: string, result: string): void {
+    const entry = this.get(sessionId);
+    if (!entry) return;
+
+    entry.lastResult = snippet(result);
+    entry.lastActiveAt = new Date().toISOString();
+    this.save();
+  }
+
+  get(sessionId: string): SessionHistoryEntry | undefined {
+    return this.entries.find(entry => entry.sessionId === sessionId);
+  }
+
+  /**
+   * Sessions, most recently active first, optionally only those from one origin
+   */
+  list(limit = 10, origin?: string): SessionHistoryEntry[] {
+    return this.entries
+      .filter(entry => origin === undefined || entry.origin === origin)
+      .sort((a, b) => b.lastActiveAt.localeCompare(a.lastActiveAt))
+      .slice(0, limit);
+  }
+
+  /**
+   * Find a session by 1-based position in list(), full ID or unique ID prefix.
+   * Only sessions in the history can be found, so a mistyped ID never
+   * switches to a session that does not exist. Full IDs of sessions from
+   * before the history was kept are not found either, so those cannot be
+   * resumed.
+   */
+  resolve(ref: string): SessionHistoryEntry | undefined {
+    ref = ref.trim();
+    if (!ref) return undefined;
+
+    // Short numbers are positions; longer digit runs can be ID prefixes
+    if (/^\d{1,3}$/.test(ref)) {
+      return this.list(this.entries.length)[parseInt(ref, 10) - 1];
+    }
+
+    const exact = this.get(ref);
+    if (exact) return exact;
+
+    const matches = this.entries.filter(entry => entry.sessionId.startsWith(ref));
+    return matches.length === 1 ? matches[0] : undefined;
+  }
+}
@@ -0,0 +1,370 @@
+import {
+  SlashCommandBuilder,
+  EmbedBuilder,
+  AttachmentBuilder,
+  MessageFlags,
+  type ChatInputCommandInteraction,
+  type InteractionEditReplyOptions,
+} from 'discord.js';
+import type { Orchestrator } from './orchestrator.js';
+import type { MCPServer } from './mcp-server.js';
+import type { UsageTracker } from './usage.js';
+import type { SessionHistory } from './session-history.js';
+import { createLogger, type LogLevel } from './logger.js';
+import { hasAccess } from './access.js';
+import type { AccessLevel } from '../types.js';
+
+const log = createLogger('commands');
+
+const COLOR = {
+  OK: 0x57f287,
+  INFO: 0x5865f2,
+  WARN: 0xfee75c,
+  ERROR: 0xed4245,
+};
+
+// Embed descriptions are capped at 4096 characters
+const EMBED_DESCRIPTION_MAX = 4096;
+
+/**
+ * Slash command definitions, registered with Discord on startup
+ */
+export const SLASH_COMMANDS = [
+  new SlashCommandBuilder()
+    .setName('status')
+    .setDescription('Show kernel and Claude status'),
+  new SlashCommandBuilder()
+    .setName('interrupt')
+    .setDescription('Interrupt the running Claude query'),
+  new SlashCommandBuilder()
+    .setName('restart')
+    .setDescription('Restart the Claude instance')
+    .addStringOption((option) =>
+      option
+        .setName('mode')
+        .setDescription('Start a fresh session or resume the current one (default: fresh)')
+        .addChoices(
+          { name: 'fresh', value: 'fresh' },
+          { name: 'resume', value: 'resume' },
+        )
+    ),
+  new SlashCommandBuilder()
+    .setName('session')
+    .setDescription('Manage Claude sessions')
+    .addSubcommand((sub) =>
+      sub.setName('new').setDescription('Start a new session')
+    )
+    .addSubcommand((sub) =>
+      sub.setName('list').setDescription('List earlier sessions, most recent first')
+    )
+    .addSubcommand((sub) =>
+      sub
+        .setName('resume')
+        .setDescription('Resume an earlier session from /session list')
+        .addStringOption((option) =>
+          option.setName('id').setDescription('Session ID, ID prefix, or number from /session list').setRequired(true)
+        )
+    ),
+  new SlashCommandBuilder()
+    .setName('transcript')
+    .setDescription('Export a session transcript as a Markdown file')
+    .addStringOption((option) =>
+      option.setName('session').setDescription('Session ID, ID prefix, or number from /session list (default: current)')
+    ),
+  new SlashCommandBuilder()
+    .setName('queue')
+    .setDescription('Show queued messages'),
+  new SlashCommandBuilder()
+    .setName('logs')
+    .setDescription('Show recent kernel logs')
+    .addIntegerOption((option) =>
+      option
+        .setName('lines')
+        .setDescription('Number of log lines (default: 50, max: 500)')
+        .setMinValue(1)
+        .setMaxValue(500)
+    )
+    .addStringOption((option) =>
+      option
+        .setName('level')
+        .setDescription('Minimum level')
+        .addChoices(
+          { name: 'debug', value: 'debug' },
+          { name: 'info', value: 'info' },
+          { name: 'warn', value: 'warn' },
+          { name: 'error', value: 'error' },
+        )
+    )
+    .addStringOption((option) =>
+      option.setName('component').setDescription('Only this component, e.g. orchestrator')
+    )
+    .addStringOption((option) =>
+      option.setName('since').setDescription('ISO timestamp or relative duration like 15m')
+    )
+    .addStringOption((option) =>
+      option.setName('search').setDescription('Text to search for')
+    ),
+  new SlashCommandBuilder()
+    .setName('usage')
+    .setDescription('Show cost and token usage')
+    .addBooleanOption((option) =>
+      option.setName('override').setDescription('Lift the daily hard budget for the rest of today')
+    ),
+].map((command) => command.toJSON());
+
+// Access level each command needs; /usage override:true additionally needs admin
+const COMMAND_LEVELS: Record<string, AccessLevel> = {
+  status: 'read-only',
+  queue: 'read-only',
+  usage: 'read-only',
+  interrupt: 'prompt',
+  restart: 'admin',
+  session: 'admin',
+  logs: 'admin',
+  transcript: 'admin',
+};
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return h > 0 ? `${h}h ${m}m` : m > 0 ? `${m}m ${s}s` : `${s}s`;
+}
+
+function formatTokens(count: number): string {
+  return count >= 1_000_000 ? `${(count / 1_000_000).toFixed(1)}M`
+    : count >= 1000 ? `${(count / 1000).toFixed(1)}k`
+    : String(count);
+}
+
+/**
+ * Handles kernel slash commands using the same Orchestrator and MCPServer
+ * methods as the kernel MCP tools. All replies are ephemeral embeds.
+ */
+export class SlashCommandHandler {
+  private mcpServer: MCPServer;
+  private usage: UsageTracker;
+  private history: SessionHistory;
+
+  constructor(mcpServer: MCPServer, usage: UsageTracker, history: SessionHistory) {
+    this.mcpServer = mcpServer;
+    this.usage = usage;
+    this.history = history;
+  }
+
+  /**
+   * Run a command against the orchestrator for the channel it was used in,
+   * if the user's access level allows it
+   */
+  async handle(
+    interaction: ChatInputCommandInteraction,
+    orchestrator: Orchestrator,
+    level: AccessLevel
+  ): Promise<void> {
+    log.info(`/${interaction.commandName} from ${interaction.user.tag} (${level})`);
+
+    try {
+      // Restarts can take a moment, acknowledge within Discord's 3s window
+      await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+      const required = interaction.commandName === 'usage' && interaction.options.getBoolean('override')
+        ? 'admin'
+        : COMMAND_LEVELS[interaction.commandName] ?? 'admin';
+      if (!hasAccess(level, required)) {
+        log.info(`Denied /${interaction.commandName} for ${interaction.user.tag}: needs ${required}`);
+        const embed = new EmbedBuilder()
+          .setColor(COLOR.ERROR)
+          .setTitle('Permission denied')
+          .setDescription(`/${interaction.commandName} needs **${required}** access, you have **${level}**.`);
+        await interaction.editReply({ embeds: [embed] });
+        return;
+      }
+
+      const reply = await this.run(interaction, orchestrator);
+      await interaction.editReply(reply instanceof EmbedBuilder ? { embeds: [reply] } : reply);
+    } catch (error) {
+      log.error(`/${interaction.commandName} failed`, error);
+      const embed = new EmbedBuilder()
+        .setColor(COLOR.ERROR)
+        .setTitle(`/${interaction.commandName} failed`)
+        .setDescription(error instanceof Error ? error.message : String(error));
+      if (interaction.deferred || interaction.replied) {
+        await interaction.editReply({ embeds: [embed] }).catch(() => {});
+      } else {
+        await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral }).catch(() => {});
+      }
+    }
+  }
+
+  /**
+   * Build the reply for a command: an embed, or full options for replies with files
+   */
+  private async run(
+    interaction: ChatInputCommandInteraction,
+    orchestrator: Orchestrator
+  ): Promise<EmbedBuilder | InteractionEditReplyOptions> {
+    switch (interaction.commandName) {
+      case 'status': {
+        const status = orchestrator.getStatus();
+        return new EmbedBuilder()
+          .setColor(status.state === 'running' ? COLOR.WARN : COLOR.OK)
+          .setTitle('Kernel Status')
+          .addFields(
+            { name: 'State', value: status.state, inline: true },
+            { name: 'Uptime', value: formatDuration(status.uptime), inline: true },
+            { name: 'Queue', value: String(status.queueDepth), inline: true },
+            { name: 'Session', value: status.sessionId ? `\`${status.sessionId}\`` : '_none_' },
+          );
+      }
+
+      case 'interrupt': {
+        const wasRunning = orchestrator.getState() === 'running';
+        await orchestrator.interrupt();
+        return new EmbedBuilder()
+          .setColor(wasRunning ? COLOR.OK : COLOR.INFO)
+          .setTitle(wasRunning ? '🛑 Interrupted' : 'Nothing to interrupt')
+          .setDescription(wasRunning ? 'The running query was interrupted.' : 'Claude is idle.');
+      }
+
+      case 'restart': {
+        const resume = interaction.options.getString('mode') === 'resume';
+        await orchestrator.restart({ resume });
+        const sessionId = orchestrator.getStatus().sessionId;
+        return new EmbedBuilder()
+          .setColor(COLOR.OK)
+          .setTitle('🔄 Claude restarted')
+          .setDescription(!resume
+            ? 'Restarted with a fresh session.'
+            : sessionId
+              ? `Restarted, resuming \`${sessionId}\`.`
+              : 'Restarted. There was no earlier session to resume, so the next message starts a fresh one.');
+      }
+
+      case 'session': {
+        const subcommand = interaction.options.getSubcommand();
+
+        if (subcommand === 'list') {
+          const current = orchestrator.getStatus().sessionId;
+          const lines = this.history.list(10).map((entry, i) => [
+            `**${i + 1}.** \`${entry.sessionId}\`${entry.sessionId === current ? ' _(current)_' : ''}`,
+            `-# ${entry.origin} · started <t:${Math.floor(Date.parse(entry.startedAt) / 1000)}:R>`,
+            `> ${entry.firstPrompt.substring(0, 100) || '_no prompt_'}`,
+            entry.lastResult ? `↳ ${entry.lastResult.substring(0, 100)}` : null,
+          ].filter(Boolean).join('\n'));
+          return new EmbedBuilder()
+            .setColor(COLOR.INFO)
+            .setTitle('Sessions')
+            .setDescription(lines.length > 0 ? lines.join('\n\n').substring(0, EMBED_DESCRIPTION_MAX) : 'No sessions recorded yet');
+        }
+
+        if (subcommand === 'resume') {
+          const ref = interaction.options.getString('id', true);
+          const entry = this.history.resolve(ref);
+          if (!entry) {
+            return new EmbedBuilder()
+              .setColor(COLOR.ERROR)
+              .setTitle('Session not found')
+              .setDescription(`No session matching \`${ref}\`. Use \`/session list\` to see recent sessions.`);
+          }
+
+          await orchestrator.resumeSession(entry.sessionId);
+          return new EmbedBuilder()
+            .setColor(COLOR.OK)
+            .setTitle('Session resumed')
+            .setDescription([
+              `The next message will continue \`${entry.sessionId}\`.`,
+              entry.firstPrompt ? `> ${entry.firstPrompt.substring(0, 200)}` : null,
+            ].filter(Boolean).join('\n'));
+        }
+
+        await orchestrator.restart({ resume: false });
+        return new EmbedBuilder()
+          .setColor(COLOR.OK)
+          .setTitle('New session')
+          .setDescription('The next message will start a fresh session.');
+      }
+
+      case 'queue': {
+        const queue = orchestrator.getQueue();
+        const lines = queue.map((item, i) =>
+          `**${i + 1}.** \`${item.id}\` ${item.message.substring(0, 100)}${item.message.length > 100 ? '...' : ''}`
+        );
+        return new EmbedBuilder()
+          .setColor(COLOR.INFO)
+          .setTitle(`📋 Queue (${queue.length})`)
+          .setDescription(lines.length > 0 ? lines.join('\n').substring(0, EMBED_DESCRIPTION_MAX) : 'Queue is empty');
+      }
+
+      case 'transcript': {
+        const transcript = this.mcpServer.exportTranscript(interaction.options.getString('session') ?? undefined, orchestrator);
+        const embed = new EmbedBuilder()
+          .setColor(COLOR.INFO)
+          .setTitle('📜 Transcript')
+          .setDescription(`Session \`${transcript.sessionId}\` · ${transcript.entries} entries`);
+        const file = new AttachmentBuilder(Buffer.from(transcript.markdown, 'utf-8'), { name: transcript.filename });
+        return { embeds: [embed], files: [file] };
+      }
+
+      case 'logs': {
+        const lines = interaction.options.getInteger('lines') ?? 50;
+        const logs = this.mcpServer.getLogs({
+          limit: lines,
+          level: (interaction.options.getString('level') as LogLevel | null) ?? undefined,
+          component: interaction.options.getString('component') ?? undefined,
+          since: interaction.options.getString('since') ?? undefined,
+          search: interaction.options.getString('search') ?? undefined,
+        });
+        // Keep the most recent output that fits in an embed
+        const tail = logs.slice(-(EMBED_DESCRIPTION_MAX - 20));
+        return new EmbedBuilder()
+          .setColor(COLOR.INFO)
+          .setTitle(`Logs (last ${lines} lines)`)
+          .setDescription(`\`\`\`\n${tail}\n\`\`\``);
+      }
+
+      case 'usage': {
+        if (interaction.options.getBoolean('override')) {
+          this.usage.override();
+        }
+
+        const sessionId = orchestrator.getStatus().sessionId;
+        const summary = this.usage.getSummary({ sessionId, recent: 1 });
+        const { today, budget, session } = summary;
+        const last = summary.recent[0];
+        const limits = [
+          budget.softUsd !== null ? `soft $${budget.softUsd.toFixed(2)}` : null,
+          budget.hardUsd !== null ? `hard $${budget.hardUsd.toFixed(2)}` : null,
+        ].filter(Boolean).join(', ') || 'none';
+
+        return new EmbedBuilder()
+          .setColor(budget.blocked ? COLOR.ERROR : COLOR.INFO)
+          .setTitle(`💰 Usage for ${summary.date}`)
+          .addFields(
+            { name: 'Today', value: `$${today.costUsd.toFixed(4)} · ${today.queries} queries`, inline: true },
+            { name: 'Tokens', value: `${formatTokens(today.inputTokens)} in · ${formatTokens(today.outputTokens)} out`, inline: true },
+            {
+              name: 'Budget',
+              value: `${limits}${budget.blocked ? ' · **blocked**' : ''}${budget.overridden ? ' · overridden' : ''}`,
+            },
+            {
+              name: 'Session',
+              value: session ? `$${session.costUsd.toFixed(4)} · ${session.queries} queries` : '_none_',
+              inline: true,
+            },
+            {
+              name: 'Last query',
+              value: last ? `$${last.costUsd.toFixed(4)} · ${last.numTurns} turns · ${formatDuration(last.durationMs)}` : '_none_',
+              inline: true,
+            },
+          );
+      }
+
+      default:
+        return new EmbedBuilder()
+          .setColor(COLOR.ERROR)
+          .setTitle('Unknown command')
+          .setDescription(`/${interaction.commandName} is not a kernel command.`);
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { RESTART_INFO_ENV, parseRestartInfo, restartEnv, type RestartInfo } from './supervisor-ipc.js';
+
+describe('restart info handshake', () => {
+  it('should pass restart details to the next kernel through its environment', () => {
+    const info: RestartInfo = { reason: 'crash', requestedAt: 1234, previousSessionId: 'session-1', exitCode: 1, signal: null };
+    const env = restartEnv({ PATH: '/bin' }, info);
+    expect(env.PATH).toBe('/bin');
+    expect(parseRestartInfo(env[RESTART_INFO_ENV])).toEqual(info);
+  });
+
+  it('should not pass stale details to a first start', () => {
+    const env = restartEnv({ [RESTART_INFO_ENV]: '{"reason":"crash","requestedAt":1}' }, null);
+    expect(env[RESTART_INFO_ENV]).toBeUndefined();
+  });
+
+  it('should reject missing or malformed details', () => {
+    expect(parseRestartInfo(undefined)).toBeNull();
+    expect(parseRestartInfo('not json')).toBeNull();
+    expect(parseRestartInfo('{"reason":"bored","requestedAt":1}')).toBeNull();
+    expect(parseRestartInfo('{"reason":"requested"}')).toBeNull();
+    expect(parseRestartInfo('{"reason":"requested","requestedAt":5}')).toEqual({ reason: 'requested', requestedAt: 5, previousSessionId: null });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * IPC between the kernel and the supervisor that spawned it (src/supervisor.ts).
+ * The supervisor forks the kernel with an IPC channel, so `process.send` is
+ * only defined when running supervised.
+ */
+
+// Env var the supervisor uses to tell a fresh kernel why it was started
+export const RESTART_INFO_ENV = 'KERNEL_RESTART_INFO';
+
+// Kernel -> supervisor
+export type KernelMessage =
+  | { type: 'ready'; sessionId: string | null }
+  | { type: 'restart'; requestedAt: number; sessionId: string | null };
+
+// Why the current kernel process was started by the supervisor
+export interface RestartInfo {
+  reason: 'requested' | 'crash' | 'unhealthy';
+  // When the restart was requested or the failure was detected (epoch ms)
+  requestedAt: number;
+  previousSessionId: string | null;
+  exitCode?: number | null;
+  signal?: string | null;
+}
+
+export function isSupervised(): boolean {
+  return typeof process.send === 'function';
+}
+
+function send(message: KernelMessage): boolean {
+  if (!process.send) return false;
+  process.send(message);
+  return true;
+}
+
+/**
+ * Ask the supervisor to restart this kernel. Returns false if not supervised.
+ */
+export function requestRestart(sessionId: string | null): boolean {
+  return send({ type: 'restart', requestedAt: Date.now(), sessionId });
+}
+
+/**
+ * Tell the supervisor the kernel finished starting
+ */
+export function notifyReady(sessionId: string | null): void {
+  send({ type: 'ready', sessionId });
+}
+
+/**
+ * Environment for a kernel the supervisor spawns, telling it why (nothing
+ * for the first start)
+ */
+export function restartEnv(env: NodeJS.ProcessEnv, info: RestartInfo | null): NodeJS.ProcessEnv {
+  const next = { ...env };
+  if (info) {
+    next[RESTART_INFO_ENV] = JSON.stringify(info);
+  } else {
+    delete next[RESTART_INFO_ENV];
+  }
+  return next;
+}
+
+/**
+ * Read restart details written by restartEnv(); null if missing or malformed
+ */
+export function parseRestartInfo(raw: string | undefined): RestartInfo | null {
+  if (!raw) return null;
+
+  try {
+    const info = JSON.parse(raw) as Partial<RestartInfo>;
+    if (!['requested', 'crash', 'unhealthy'].includes(info?.reason as string) || typeof info.requestedAt !== 'number') {
+      return null;
+    }
+    return { previousSessionId: null, ...info } as RestartInfo;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Restart details passed down by the supervisor, if this is a restart
+ */
+export function getRestartInfo(): RestartInfo | null {
+  return parseRestartInfo(process.env[RESTART_INFO_ENV]);
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  INITIAL_CRASH_HISTORY,
+  STABLE_UPTIME_MS,
+  STARTUP_GRACE_MS,
+  classifyExit,
+  inStartupGrace,
+  nextRestart,
+  recordHealthCheck,
+  type CrashHistory,
+} from './supervisor-policy.js';
+
+describe('nextRestart', () => {
+  it('should double the delay from 1s up to 60s', () => {
+    let history: CrashHistory = INITIAL_CRASH_HISTORY;
+    const delays: Array<number | null> = [];
+    // Failures far enough apart not to be a crash loop, each soon after its start
+    for (let i = 0; i < 8; i++) {
+      const now = i * 3 * 60_000;
+      const decision = nextRestart(history, now - 1000, now);
+      history = decision.history;
+      delays.push(decision.delayMs);
+    }
+    expect(delays).toEqual([1000, 2000, 4000, 8000, 16000, 32000, 60000, 60000]);
+  });
+
+  it('should reset the backoff after a stable run', () => {
+    const history: CrashHistory = { crashes: [], backoffMs: 32_000 };
+    const now = 1_000_000_000;
+    expect(nextRestart(history, now - STABLE_UPTIME_MS, now).delayMs).toBe(1000);
+    expect(nextRestart(history, now - STABLE_UPTIME_MS + 1, now).delayMs).toBe(32_000);
+  });
+
+  it('should give up on the fifth failure within ten minutes', () => {
+    let history: CrashHistory = INITIAL_CRASH_HISTORY;
+    const start = 1_000_000_000;
+    for (let i = 0; i < 4; i++) {
+      const decision = nextRestart(history, start + i * 60_000 - 1000, start + i * 60_000);
+      expect(decision.delayMs).not.toBeNull();
+      history = decision.history;
+    }
+    expect(nextRestart(history, start + 9 * 60_000 - 1000, start + 9 * 60_000).delayMs).toBeNull();
+    // The first failure has left the window by then
+    expect(nextRestart(history, start + 10 * 60_000 - 1000, start + 10 * 60_000).delayMs).not.toBeNull();
+  });
+});
+
+describe('classifyExit', () => {
+  const exit = { code: null, signal: null, shuttingDown: false, restartPending: false };
+
+  it('should treat code 0 without a signal as a clean exit', () => {
+    expect(classifyExit({ ...exit, code: 0 })).toBe('clean');
+    expect(classifyExit({ ...exit, code: 1 })).toBe('crash');
+    expect(classifyExit({ ...exit, signal: 'SIGKILL' })).toBe('crash');
+  });
+
+  it('should prefer shutdowns and requested restarts over the exit code', () => {
+    expect(classifyExit({ ...exit, code: 1, shuttingDown: true })).toBe('shutdown');
+    expect(classifyExit({ ...exit, signal: 'SIGTERM', restartPending: true })).toBe('restart');
+    expect(classifyExit({ ...exit, code: 0, restartPending: true })).toBe('restart');
+  });
+});
+
+describe('health checks', () => {
+  it('should ignore checks during the startup grace period', () => {
+    expect(inStartupGrace(0, STARTUP_GRACE_MS - 1)).toBe(true);
+    expect(inStartupGrace(0, STARTUP_GRACE_MS)).toBe(false);
+  });
+
+  it('should restart after three failures in a row', () => {
+    let failures = 0;
+    const results = [false, false, true, false, false, false].map((healthy) => {
+      const result = recordHealthCheck(failures, healthy);
+      failures = result.failures;
+      return result.unhealthy;
+    });
+    expect(results).toEqual([false, false, false, false, false, true]);
+  });
+});
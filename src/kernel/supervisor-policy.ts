@@ -0,0 +1,90 @@
+/**
+ * Restart decisions for the kernel supervisor (src/supervisor.ts), kept free
+ * of timers and processes so they can be tested on their own.
+ */
+
+// Give the kernel time to load the SDK and connect before health checks count
+export const STARTUP_GRACE_MS = 60_000;
+export const HEALTH_MAX_FAILURES = 3;
+
+export const BACKOFF_BASE_MS = 1_000;
+export const BACKOFF_MAX_MS = 60_000;
+// A kernel that stays up this long resets the backoff
+export const STABLE_UPTIME_MS = 5 * 60_000;
+
+// This many crashes inside the window is a crash loop
+export const CRASH_LOOP_COUNT = 5;
+export const CRASH_LOOP_WINDOW_MS = 10 * 60_000;
+
+export interface CrashHistory {
+  // Recent failure times (epoch ms), oldest first
+  crashes: number[];
+  // Delay before the next respawn
+  backoffMs: number;
+}
+
+export const INITIAL_CRASH_HISTORY: CrashHistory = { crashes: [], backoffMs: BACKOFF_BASE_MS };
+
+export interface RestartDecision {
+  history: CrashHistory;
+  // null = crash loop, give up
+  delayMs: number | null;
+}
+
+/**
+ * Record a failure of a kernel started at startedAt and decide when to
+ * respawn: exponential backoff from 1s to 60s, reset by a stable run, and
+ * no respawn after CRASH_LOOP_COUNT failures within CRASH_LOOP_WINDOW_MS
+ */
+export function nextRestart(history: CrashHistory, startedAt: number, now: number): RestartDecision {
+  const backoffMs = now - startedAt >= STABLE_UPTIME_MS ? BACKOFF_BASE_MS : history.backoffMs;
+  const crashes = [...history.crashes.filter(t => now - t < CRASH_LOOP_WINDOW_MS), now];
+
+  if (crashes.length >= CRASH_LOOP_COUNT) {
+    return { history: { crashes, backoffMs }, delayMs: null };
+  }
+  return {
+    history: { crashes, backoffMs: Math.min(backoffMs * 2, BACKOFF_MAX_MS) },
+    delayMs: backoffMs,
+  };
+}
+
+export type ExitKind =
+  // The supervisor is shutting down
+  | 'shutdown'
+  // The supervisor stopped the kernel to restart it
+  | 'restart'
+  // The kernel exited with code 0 on its own
+  | 'clean'
+  | 'crash';
+
+/**
+ * Why a kernel process exited
+ */
+export function classifyExit(exit: {
+  code: number | null;
+  signal: string | null;
+  shuttingDown: boolean;
+  restartPending: boolean;
+}): ExitKind {
+  if (exit.shuttingDown) return 'shutdown';
+  if (exit.restartPending) return 'restart';
+  if (exit.code === 0 && exit.signal === null) return 'clean';
+  return 'crash';
+}
+
+/**
+ * Whether a health check result should count, given when the kernel started
+ */
+export function inStartupGrace(startedAt: number, now: number): boolean {
+  return now - startedAt < STARTUP_GRACE_MS;
+}
+
+/**
+ * Consecutive failed health checks after a check; the kernel is restarted
+ * once they reach HEALTH_MAX_FAILURES
+ */
+export function recordHealthCheck(failures: number, healthy: boolean): { failures: number; unhealthy: boolean } {
+  const next = healthy ? 0 : failures + 1;
+  return { failures: next, unhealthy: next >= HEALTH_MAX_FAILURES };
+}
@@ -0,0 +1,197 @@
+import { EventEmitter } from 'events';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { Orchestrator, type OrchestratorOptions } from './orchestrator.js';
+import type { ThreadSessionRecord, OrchestratorState } from '../types.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('threads');
+
+const THREADS_DIR = '.claude-threads';
+const REGISTRY_FILE = 'registry.json';
+
+/**
+ * Load the thread ID -> session registry
+ * Returns empty registry if file doesn't exist or has errors
+ */
+function loadRegistry(path: string): Record<string, ThreadSessionRecord> {
+  if (!existsSync(path)) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(readFileSync(path, 'utf-8'));
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    log.error('Failed to load thread registry', error);
+    return {};
+  }
+}
+
+/**
+ * Settings every thread's orchestrator shares with the main one
+ */
+export type SharedOrchestratorOptions = Pick<OrchestratorOptions, 'usage' | 'history' | 'transcripts' | 'queryProvider' | 'steer' | 'idleTimeoutMs' | 'toolIdleTimeoutMs'>;
+
+export interface ThreadSessionManager {
+  on(event: 'orchestrator', listener: (threadId: string, orchestrator: Orchestrator) => void): this;
+  emit(event: 'orchestrator', threadId: string, orchestrator: Orchestrator): boolean;
+}
+
+/**
+ * Maps Discord threads started from the chat channel to their own
+ * Orchestrator, each with its own SDK session. At most `maxConcurrent`
+ * thread queries run at once; messages beyond that wait in the thread's
+ * queue until a slot frees up.
+ */
+export class ThreadSessionManager extends EventEmitter {
+  private cwd: string;
+  private dir: string;
+  private registryPath: string;
+  private registry: Record<string, ThreadSessionRecord>;
+  private orchestrators: Map<string, Orchestrator> = new Map();
+  private pending: Map<string, Promise<Orchestrator>> = new Map();
+  private maxConcurrent: number;
+  private shared: SharedOrchestratorOptions;
+
+  constructor(cwd: string, maxConcurrent: number, shared: SharedOrchestratorOptions = {}) {
+    super();
+    this.cwd = cwd;
+    this.maxConcurrent = maxConcurrent;
+    this.shared = shared;
+    this.dir = join(cwd, THREADS_DIR);
+    this.registryPath = join(this.dir, REGISTRY_FILE);
+    this.registry = loadRegistry(this.registryPath);
+  }
+
+  /**
+   * Recreate orchestrators for threads that still had queued messages
+   * when the kernel stopped, so they can be drained on startup.
+   */
+  async initialize(): Promise<void> {
+    for (const threadId of Object.keys(this.registry)) {
+      if (!existsSync(this.queueFile(threadId))) continue;
+
+      const orchestrator = await this.get(threadId);
+      if (orchestrator.hasQueuedMessage()) {
+        log.info(`Restored queue for thread ${threadId}`);
+      }
+    }
+  }
+
+  private queueFile(threadId: string): string {
+    return join(this.dir, `${threadId}.queue.json`);
+  }
+
+  private saveRegistry(): void {
+    try {
+      mkdirSync(this.dir, { recursive: true });
+      writeFileSync(this.registryPath, JSON.stringify(this.registry, null, 2), 'utf-8');
+    } catch (error) {
+      log.error('Failed to save thread registry', error);
+    }
+  }
+
+  /**
+   * Get (or lazily create) the orchestrator for a thread
+   */
+  async get(threadId: string): Promise<Orchestrator> {
+    const existing = this.orchestrators.get(threadId);
+    if (existing) return existing;
+
+    // Avoid creating two orchestrators when messages arrive back to back
+    const inFlight = this.pending.get(threadId);
+    if (inFlight) return inFlight;
+
+    const creating = this.create(threadId);
+    this.pending.set(threadId, creating);
+    try {
+      return await creating;
+    } finally {
+      this.pending.delete(threadId);
+    }
+  }
+
+  private async create(threadId: string): Promise<Orchestrator> {
+    mkdirSync(this.dir, { recursive: true });
+
+    const record = this.registry[threadId];
+    const orchestrator = new Orchestrator(this.cwd, {
+      ...this.shared,
+      persistSession: false,
+      sessionId: record?.sessionId ?? null,
+      queueFile: this.queueFile(threadId),
+      origin: `thread:${threadId}`,
+    });
+    await orchestrator.initialize();
+
+    orchestrator.on('session', (sessionId) => {
+      const now = new Date().toISOString();
+      this.registry[threadId] = {
+        sessionId,
+        createdAt: this.registry[threadId]?.createdAt ?? now,
+        lastActiveAt: now,
+      };
+      this.saveRegistry();
+    });
+
+    // A finished thread frees a slot for threads waiting on the limit
+    orchestrator.on('stateChange', (state) => {
+      if (state === 'idle') {
+        setImmediate(() => this.processWaiting());
+      }
+    });
+
+    log.info(`Created orchestrator for thread ${threadId}`, record ? `(resuming ${record.sessionId})` : '(new session)');
+    this.orchestrators.set(threadId, orchestrator);
+    this.emit('orchestrator', threadId, orchestrator);
+    return orchestrator;
+  }
+
+  /**
+   * Number of thread queries currently running
+   */
+  runningCount(): number {
+    let count = 0;
+    for (const orchestrator of this.orchestrators.values()) {
+      if (orchestrator.getState() === 'running') count++;
+    }
+    return count;
+  }
+
+  hasCapacity(): boolean {
+    return this.runningCount() < this.maxConcurrent;
+  }
+
+  /**
+   * Start idle threads that have queued messages, while slots are free
+   */
+  processWaiting(): void {
+    for (const [threadId, orchestrator] of this.orchestrators) {
+      if (!this.hasCapacity()) return;
+      if (orchestrator.getState() === 'idle' && orchestrator.hasQueuedMessage()) {
+        log.info(`Starting queued work for thread ${threadId}`);
+        orchestrator.processQueue().catch((error) => {
+          log.error(`Failed to process queue for thread ${threadId}`, error);
+        });
+      }
+    }
+  }
+
+  /**
+   * Registered threads and their sessions
+   */
+  list(): Array<ThreadSessionRecord & { threadId: string; state: OrchestratorState }> {
+    return Object.entries(this.registry).map(([threadId, record]) => ({
+      threadId,
+      ...record,
+      state: this.orchestrators.get(threadId)?.getState() ?? 'idle',
+    }));
+  }
+
+  async shutdown(): Promise<void> {
+    for (const orchestrator of this.orchestrators.values()) {
+      await orchestrator.shutdown();
+    }
+  }
+}
@@ -0,0 +1,258 @@
+import { createLogger } from './logger.js';
+import type { RichMessage, SentRichMessage } from './transport.js';
+
+const log = createLogger('tool-embeds');
+
+const COLOR = {
+  RUNNING: 0x5865f2,
+  OK: 0x57f287,
+  ERROR: 0xed4245,
+};
+
+// Stay under the 4096 embed description limit with room for wrapping text
+const DESCRIPTION_BUDGET = 3500;
+const BASH_TAIL_LINES = 15;
+const PREVIEW_LENGTH = 800;
+
+interface ToolCall {
+  id: string;
+  name: string;
+  input: Record<string, any>;
+}
+
+interface ToolView {
+  // Body shown while the tool runs and kept once it finishes
+  body: string;
+  // Content too large for the embed, attached as a file instead
+  file?: { name: string; content: string };
+}
+
+/**
+ * Wrap text in a ``` block, breaking up any fences inside it with a zero-width space
+ */
+function fence(text: string, language = ''): string {
+  return `\`\`\`${language}\n${text.replace(/```/g, '`\u200b``')}\n\`\`\``;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.substring(0, max) + '\n...' : text;
+}
+
+/**
+ * Plain text of a tool result: strings as-is, text blocks joined, images noted
+ */
+function resultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return content === undefined ? '' : JSON.stringify(content, null, 2);
+
+  return content.map((block) => {
+    if (block?.type === 'text' && typeof block.text === 'string') return block.text;
+    if (block?.type === 'image') return '[image]';
+    return JSON.stringify(block);
+  }).join('\n');
+}
+
+/**
+ * Unified diff of one replacement: unchanged leading and trailing lines are
+ * context, everything between is removed/added
+ */
+function unifiedDiff(path: string, before: string, after: string): string {
+  const a = before.length > 0 ? before.split('\n') : [];
+  const b = after.length > 0 ? after.split('\n') : [];
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const lines = [
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    `@@ -1,${a.length} +1,${b.length} @@`,
+    ...a.slice(0, prefix).map(line => ` ${line}`),
+    ...a.slice(prefix, a.length - suffix).map(line => `-${line}`),
+    ...b.slice(prefix, b.length - suffix).map(line => `+${line}`),
+    ...a.slice(a.length - suffix).map(line => ` ${line}`),
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Show a diff inline, or a preview plus the full diff as a file when large
+ */
+function diffView(path: string, diff: string, threshold: number): ToolView {
+  const header = `\`${path}\``;
+  if (diff.length <= threshold) {
+    return { body: `${header}\n${fence(diff, 'diff')}` };
+  }
+  return {
+    body: `${header}\n${fence(truncate(diff, PREVIEW_LENGTH), 'diff')}\n-# Full diff attached`,
+    file: { name: `${path.split('/').pop() ?? 'changes'}.diff`, content: diff },
+  };
+}
+
+function renderCall(call: ToolCall, threshold: number): ToolView {
+  const { input } = call;
+
+  switch (call.name) {
+    case 'Edit':
+      return diffView(input.file_path, unifiedDiff(input.file_path, input.old_string ?? '', input.new_string ?? ''), threshold);
+
+    case 'MultiEdit': {
+      const edits: Array<{ old_string?: string; new_string?: string }> = input.edits ?? [];
+      const diff = edits
+        .map(edit => unifiedDiff(input.file_path, edit.old_string ?? '', edit.new_string ?? ''))
+        .join('\n');
+      return diffView(input.file_path, diff, threshold);
+    }
+
+    case 'Write':
+      return diffView(input.file_path, unifiedDiff(input.file_path, '', input.content ?? ''), threshold);
+
+    case 'Bash':
+      return {
+        body: [
+          input.description ? `_${input.description}_` : null,
+          fence(`$ ${truncate(input.command ?? '', DESCRIPTION_BUDGET / 2)}`, 'bash'),
+        ].filter(Boolean).join('\n'),
+      };
+
+    case 'Read': {
+      const range = input.offset || input.limit
+        ? `lines ${input.offset ?? 1}–${(input.offset ?? 1) + (input.limit ?? 2000) - 1}`
+        : 'whole file';
+      return { body: `\`${input.file_path}\` · ${range}` };
+    }
+
+    default: {
+      const json = JSON.stringify(input, null, 2) ?? '';
+      if (json.length <= threshold) {
+        return { body: fence(json, 'json') };
+      }
+      return {
+        body: `${fence(truncate(json, PREVIEW_LENGTH), 'json')}\n-# Full input attached`,
+        file: { name: `${call.name}-input.json`, content: json },
+      };
+    }
+  }
+}
+
+/**
+ * Result section for a finished call: Bash gets exit status and output tail,
+ * Read a line count, other tools a preview. Large output is attached.
+ */
+function renderResult(call: ToolCall, content: unknown, isError: boolean, threshold: number): ToolView {
+  const text = resultText(content);
+  const file = text.length > threshold ? { name: `${call.name}-${call.id.slice(-8)}.txt`, content: text } : undefined;
+
+  switch (call.name) {
+    case 'Bash': {
+      const exitCode = /^Exit code (\d+)/m.exec(text)?.[1] ?? (isError ? '1' : '0');
+      const tail = text.trimEnd().split('\n').slice(-BASH_TAIL_LINES).join('\n');
+      return {
+        body: [
+          `**Exit ${exitCode}**`,
+          tail ? fence(truncate(tail, PREVIEW_LENGTH)) : '_no output_',
+        ].join('\n'),
+        file,
+      };
+    }
+
+    case 'Read':
+      return isError
+        ? { body: fence(truncate(text, PREVIEW_LENGTH)) }
+        : { body: `Read ${text.split('\n').length} lines`, file };
+
+    case 'Edit':
+    case 'MultiEdit':
+    case 'Write':
+      // The diff says it all; only failures need the result
+      return isError ? { body: fence(truncate(text, PREVIEW_LENGTH)) } : { body: '' };
+
+    default:
+      return { body: text ? fence(truncate(text, PREVIEW_LENGTH)) : '_no output_', file };
+  }
+}
+
+function buildMessage(
+  call: ToolCall,
+  label: string,
+  callView: ToolView,
+  resultView: ToolView | null,
+  isError: boolean
+): RichMessage {
+  const status = resultView === null ? '⏳' : isError ? '❌' : '✅';
+  const description = [callView.body, resultView?.body].filter(Boolean).join('\n');
+
+  const files = [callView.file, resultView?.file]
+    .filter((file): file is { name: string; content: string } => file !== undefined)
+    .map(file => ({ name: file.name, data: Buffer.from(file.content, 'utf-8') }));
+
+  return {
+    title: `${status} ${call.name}`,
+    description: truncate(description, DESCRIPTION_BUDGET) || '_no input_',
+    color: resultView === null ? COLOR.RUNNING : isError ? COLOR.ERROR : COLOR.OK,
+    footer: `${label} · ${call.id}`,
+    files,
+  };
+}
+
+/**
+ * Verbose-channel log of tool calls: each call is posted as an embed when
+ * it starts and the same message is updated when its result arrives.
+ */
+export class ToolEventLog {
+  private post: (message: RichMessage) => Promise<SentRichMessage | null>;
+  private threshold: number;
+  // Calls waiting for their result, keyed by tool_use ID
+  private pending: Map<string, { call: ToolCall; label: string; view: ToolView; message: Promise<SentRichMessage | null> }> = new Map();
+
+  constructor(post: (message: RichMessage) => Promise<SentRichMessage | null>, threshold: number) {
+    this.post = post;
+    this.threshold = threshold;
+  }
+
+  toolUse(tool: { id: string; name: string; input: unknown }, label: string): void {
+    const call: ToolCall = {
+      id: tool.id,
+      name: tool.name,
+      input: tool.input && typeof tool.input === 'object' ? tool.input as Record<string, any> : {},
+    };
+    const view = renderCall(call, this.threshold);
+    const message = this.post(buildMessage(call, label, view, null, false)).catch((error) => {
+      log.error(`Failed to post tool call ${tool.name}`, error);
+      return null;
+    });
+    this.pending.set(tool.id, { call, label, view, message });
+  }
+
+  async toolResult(result: { id: string; content: unknown; isError?: boolean }): Promise<void> {
+    const entry = this.pending.get(result.id);
+    if (!entry) {
+      log.debug(`Result for unknown tool call ${result.id}`);
+      return;
+    }
+    this.pending.delete(result.id);
+
+    const isError = result.isError ?? false;
+    const resultView = renderResult(entry.call, result.content, isError, this.threshold);
+    const update = buildMessage(entry.call, entry.label, entry.view, resultView, isError);
+
+    try {
+      const message = await entry.message;
+      if (message) {
+        // Files from the call are already on the message; only resend
+        // them when the result adds one
+        await message.update(resultView.file ? update : { ...update, files: [] });
+      } else {
+        await this.post(update);
+      }
+    } catch (error) {
+      log.error(`Failed to update tool call ${entry.call.name}`, error);
+    }
+  }
+}
@@ -0,0 +1,200 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import { createLogger } from './logger.js';
+
+const log = createLogger('transcripts');
+
+const TRANSCRIPT_DIR = '.claude-transcripts';
+// Tool input and output longer than this is cut in rendered transcripts
+const RENDER_TOOL_LIMIT = 2000;
+
+// Session IDs become file names, so only allow what the SDK uses
+const SESSION_ID_PATTERN = /^[\w-]+$/;
+
+/**
+ * One line of a transcript: a prompt the kernel sent, or an SDK event
+ */
+export type TranscriptEntry =
+  | { timestamp: string; type: 'prompt'; text: string; images: number }
+  | { timestamp: string; type: 'event'; event: SDKMessage };
+
+/**
+ * Replace base64 image data (screenshots in tool results) with its size,
+ * which keeps transcripts small enough to read back
+ */
+function withoutImageData(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(withoutImageData);
+  if (!value || typeof value !== 'object') return value;
+
+  const record = value as Record<string, unknown>;
+  if (record.type === 'image' && typeof (record.source as { data?: unknown })?.data === 'string') {
+    const source = record.source as { data: string };
+    return { ...record, source: { ...source, data: `[${source.data.length} base64 characters omitted]` } };
+  }
+  return Object.fromEntries(Object.entries(record).map(([key, child]) => [key, withoutImageData(child)]));
+}
+
+/**
+ * Per-session JSONL transcripts in .claude-transcripts/<session>.jsonl: every
+ * prompt the kernel sends and every SDK event except per-token deltas, which
+ * the complete assistant messages repeat.
+ */
+export class TranscriptStore {
+  private dir: string;
+
+  constructor(cwd: string) {
+    this.dir = join(cwd, TRANSCRIPT_DIR);
+  }
+
+  private path(sessionId: string): string {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      throw new Error(`Invalid session ID: ${sessionId}`);
+    }
+    return join(this.dir, `${sessionId}.jsonl`);
+  }
+
+  private append(sessionId: string, entry: TranscriptEntry): void {
+    try {
+      mkdirSync(this.dir, { recursive: true });
+      appendFileSync(this.path(sessionId), JSON.stringify(entry) + '\n', 'utf-8');
+    } catch (error) {
+      log.error(`Failed to write transcript for ${sessionId}`, error);
+    }
+  }
+
+  appendPrompt(sessionId: string, text: string, images = 0): void {
+    this.append(sessionId, { timestamp: new Date().toISOString(), type: 'prompt', text, images });
+  }
+
+  appendEvent(sessionId: string, event: SDKMessage): void {
+    if (event.type === 'stream_event') return;
+    this.append(sessionId, { timestamp: new Date().toISOString(), type: 'event', event: withoutImageData(event) as SDKMessage });
+  }
+
+  has(sessionId: string): boolean {
+    return SESSION_ID_PATTERN.test(sessionId) && existsSync(this.path(sessionId));
+  }
+
+  /**
+   * Entries of a session's transcript, skipping lines that fail to parse
+   */
+  read(sessionId: string): TranscriptEntry[] {
+    if (!this.has(sessionId)) return [];
+
+    const entries: TranscriptEntry[] = [];
+    for (const line of readFileSync(this.path(sessionId), 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        log.warn(`Skipping corrupt transcript line in ${sessionId}`);
+      }
+    }
+    return entries;
+  }
+}
+
+function truncate(text: string, limit = RENDER_TOOL_LIMIT): string {
+  return text.length > limit ? `${text.substring(0, limit)}\n… (${text.length - limit} more characters)` : text;
+}
+
+function quote(text: string): string {
+  return text.split('\n').map(line => `> ${line}`).join('\n');
+}
+
+/**
+ * Text of a tool result, whose content is a string or a list of blocks
+ */
+export function toolResultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return JSON.stringify(content ?? '');
+  return content
+    .map((block: { type?: string; text?: string }) => block?.type === 'text' ? block.text ?? '' : `[${block?.type ?? 'block'}]`)
+    .join('\n');
+}
+
+/**
+ * First line of a tool's input, for the collapsed summary
+ */
+function toolSummary(name: string, input: Record<string, unknown>): string {
+  const hint = input.command ?? input.file_path ?? input.path ?? input.pattern ?? input.url ?? input.description;
+  const line = typeof hint === 'string' ? hint.split('\n')[0] : '';
+  return line ? `${name}: ${line.length > 80 ? line.substring(0, 80) + '…' : line}` : name;
+}
+
+/**
+ * Render a transcript as Markdown: prompts, Claude's text, tool calls
+ * collapsed in <details> with their results, and each query's result and cost
+ */
+export function renderTranscript(sessionId: string, entries: TranscriptEntry[]): string {
+  const lines: string[] = [`# Session \`${sessionId}\``, ''];
+  if (entries.length > 0) {
+    lines.push(`${entries[0].timestamp} – ${entries[entries.length - 1].timestamp}`, '');
+  }
+
+  // Tool calls wait here until their result arrives
+  const pendingTools = new Map<string, { name: string; input: Record<string, unknown> }>();
+  let totalCost = 0;
+
+  for (const entry of entries) {
+    if (entry.type === 'prompt') {
+      const images = entry.images > 0 ? ` (${entry.images} image${entry.images === 1 ? '' : 's'})` : '';
+      lines.push(`## 💬 Prompt · ${entry.timestamp}${images}`, '', quote(entry.text), '');
+      continue;
+    }
+
+    const event = entry.event;
+    if (event.type === 'assistant') {
+      // Subagent output is folded into the tool call that ran it
+      if (event.parent_tool_use_id) continue;
+      for (const block of event.message.content) {
+        if (block.type === 'text' && block.text.trim()) {
+          lines.push(block.text, '');
+        } else if (block.type === 'tool_use') {
+          pendingTools.set(block.id, { name: block.name, input: block.input as Record<string, unknown> });
+        }
+      }
+    } else if (event.type === 'user' && Array.isArray(event.message.content)) {
+      for (const block of event.message.content) {
+        if (block.type !== 'tool_result') continue;
+        const tool = pendingTools.get(block.tool_use_id);
+        if (!tool) continue;
+        pendingTools.delete(block.tool_use_id);
+
+        const status = block.is_error ? ' ❌' : '';
+        lines.push(
+          `<details><summary>🔧 ${toolSummary(tool.name, tool.input)}${status}</summary>`,
+          '',
+          '```json',
+          truncate(JSON.stringify(tool.input, null, 2)),
+          '```',
+          '',
+          '```',
+          truncate(toolResultText(block.content)),
+          '```',
+          '',
+          '</details>',
+          '',
+        );
+      }
+    } else if (event.type === 'result') {
+      totalCost += event.total_cost_usd ?? 0;
+      const stats = `$${(event.total_cost_usd ?? 0).toFixed(4)} · ${event.num_turns} turn${event.num_turns === 1 ? '' : 's'} · ${(event.duration_ms / 1000).toFixed(1)}s`;
+      if (event.subtype === 'success') {
+        lines.push(`### ✅ Result · ${stats}`, '', event.result, '');
+      } else {
+        const errors = 'errors' in event ? event.errors.join(', ') : '';
+        lines.push(`### ❌ ${event.subtype} · ${stats}`, '', errors || '_no details_', '');
+      }
+    }
+  }
+
+  // Calls that never got a result (interrupted)
+  for (const tool of pendingTools.values()) {
+    lines.push(`<details><summary>🔧 ${toolSummary(tool.name, tool.input)} (no result)</summary>`, '', '```json', truncate(JSON.stringify(tool.input, null, 2)), '```', '', '</details>', '');
+  }
+
+  lines.push('---', '', `**Total cost:** $${totalCost.toFixed(4)}`);
+  return lines.join('\n') + '\n';
+}
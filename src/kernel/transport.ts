@@ -0,0 +1,119 @@
+import type { EventEmitter } from 'events';
+import type { ChatInputCommandInteraction, RESTPostAPIChatInputApplicationCommandsJSONBody } from 'discord.js';
+import type {
+  AccessLevel,
+  ApprovalRequest,
+  ApprovalDecision,
+  ChannelType,
+  QuestionRequest,
+  QuestionAnswers,
+} from '../types.js';
+
+/**
+ * A file attached to an incoming message
+ */
+export interface ChatAttachment {
+  name: string;
+  size: number;
+  contentType: string | null;
+  download(): Promise<Buffer>;
+}
+
+/**
+ * A message from a user, already checked against the allowlist
+ */
+export interface ChatMessage {
+  id: string;
+  content: string;
+  authorId: string;
+  authorName: string;
+  level: AccessLevel;
+  // Set when the message was sent in a thread with its own session
+  threadId?: string;
+  attachments: ChatAttachment[];
+}
+
+/**
+ * An allowlisted user reacting to one of their messages or the kernel's
+ */
+export interface ChatReaction {
+  messageId: string;
+  emoji: string;
+  userId: string;
+  level: AccessLevel;
+  threadId?: string;
+}
+
+/**
+ * Slash commands and what runs them. They are defined in Discord's format;
+ * transports without slash commands leave registerCommands out.
+ */
+export interface CommandRegistration {
+  commands: RESTPostAPIChatInputApplicationCommandsJSONBody[];
+  // threadId is set for commands used in a thread with its own session
+  handle(interaction: ChatInputCommandInteraction, level: AccessLevel, threadId?: string): Promise<void>;
+}
+
+/**
+ * A posted message that can be edited in place (live responses)
+ */
+export interface SentMessage {
+  edit(content: string): Promise<unknown>;
+}
+
+/**
+ * Transport-neutral rich message (an embed on Discord)
+ */
+export interface RichMessage {
+  title: string;
+  description: string;
+  color?: number;
+  footer?: string;
+  files?: OutgoingFile[];
+}
+
+export interface SentRichMessage {
+  update(message: RichMessage): Promise<void>;
+}
+
+export interface OutgoingFile {
+  name: string;
+  data: Buffer;
+}
+
+export interface ChatTransport extends EventEmitter {
+  on(event: 'ready', listener: () => void): this;
+  on(event: 'message', listener: (message: ChatMessage) => void): this;
+  on(event: 'reaction', listener: (reaction: ChatReaction) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  /** Offer slash commands, if the transport has them */
+  registerCommands?(registration: CommandRegistration): void;
+
+  /** Send text to a channel, split as needed; resolves with the posted message IDs */
+  send(channelType: ChannelType, content: string): Promise<string[]>;
+  /** Send text into a thread; resolves with the posted message IDs */
+  sendThread(threadId: string, content: string): Promise<string[]>;
+  /** Send one message to a channel type or any channel by ID; false if it is not available */
+  sendToChannel(channel: string, content: string, files?: OutgoingFile[]): Promise<boolean>;
+  /** Post a single message that can be edited later */
+  postMessage(channelType: ChannelType, content: string): Promise<SentMessage | null>;
+  /** Post a rich message that can be updated later */
+  postRich(channelType: ChannelType, message: RichMessage): Promise<SentRichMessage | null>;
+  /** Labelled debug data for the verbose channel */
+  sendVerbose(label: string, data: unknown): Promise<void>;
+  /** Send one image (base64 or bytes) */
+  sendImage(channelType: ChannelType, imageData: Buffer | string, filename?: string, caption?: string): Promise<void>;
+  /** Send several images together */
+  sendImages(channelType: ChannelType, images: OutgoingFile[], caption?: string): Promise<void>;
+  /** Show that Claude is working in the chat channel or a thread (lasts a few seconds) */
+  sendTyping(threadId?: string): Promise<void>;
+  /** Mark a user's message, e.g. with the task status */
+  react(message: ChatMessage, emoji: string): Promise<void>;
+  /** Ask an admin to approve a tool call; null if nobody answered in time */
+  requestApproval(request: ApprovalRequest, threadId?: string): Promise<ApprovalDecision | null>;
+  /** Ask Claude's questions; resolves with the answers given before the timeout */
+  askQuestions(request: QuestionRequest, threadId?: string): Promise<QuestionAnswers>;
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { UsageTracker, msUntilNextDay, type BudgetEvent } from './usage.js';
+import type { QueryUsage } from '../types.js';
+
+let cwd: string;
+
+function usage(costUsd: number, sessionId = 'session-1'): QueryUsage {
+  return {
+    sessionId,
+    costUsd,
+    inputTokens: 100,
+    outputTokens: 50,
+    cacheReadTokens: 10,
+    cacheCreationTokens: 0,
+    durationMs: 1000,
+    numTurns: 1,
+  };
+}
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), 'usage-test-'));
+  vi.useFakeTimers({ toFake: ['Date', 'setTimeout', 'clearTimeout'] });
+  vi.setSystemTime(new Date(2026, 2, 14, 12, 0, 0));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+describe('UsageTracker', () => {
+  it('should total queries per day and per session', () => {
+    const tracker = new UsageTracker(cwd, { hardAction: 'queue' });
+    tracker.record(usage(0.5));
+    tracker.record(usage(0.25, 'session-2'));
+    tracker.record(usage(0.25));
+
+    expect(tracker.getToday()).toMatchObject({ queries: 3, costUsd: 1, inputTokens: 300, cacheReadTokens: 30 });
+    expect(tracker.getSession('session-1')).toMatchObject({ queries: 2, costUsd: 0.75 });
+    expect(tracker.getSession('session-2')).toMatchObject({ queries: 1, costUsd: 0.25 });
+
+    // Totals survive a restart
+    expect(new UsageTracker(cwd, { hardAction: 'queue' }).getToday().queries).toBe(3);
+  });
+
+  it('should start a new day at local midnight', () => {
+    const tracker = new UsageTracker(cwd, { hardAction: 'queue' });
+    tracker.record(usage(1));
+
+    vi.setSystemTime(new Date(2026, 2, 15, 0, 0, 1));
+    expect(tracker.getToday().queries).toBe(0);
+    expect(Object.keys(tracker.getSummary().days)).toEqual(['2026-03-14']);
+  });
+
+  it('should warn once a day at the soft limit and block at the hard limit', () => {
+    const tracker = new UsageTracker(cwd, { softUsd: 1, hardUsd: 2, hardAction: 'queue' });
+    const events: BudgetEvent[] = [];
+    tracker.on('budget', event => events.push(event));
+
+    tracker.record(usage(1));
+    tracker.record(usage(0.5));
+    expect(events).toEqual([{ kind: 'soft', spentUsd: 1, limitUsd: 1 }]);
+    expect(tracker.isBlocked()).toBe(false);
+
+    tracker.record(usage(0.5));
+    tracker.record(usage(0.5));
+    expect(events.map(event => event.kind)).toEqual(['soft', 'hard']);
+    expect(tracker.isBlocked()).toBe(true);
+
+    // The next day starts unblocked
+    vi.setSystemTime(new Date(2026, 2, 15, 9, 0, 0));
+    expect(tracker.isBlocked()).toBe(false);
+  });
+
+  it('should lift the hard limit for the rest of the day on override', () => {
+    const tracker = new UsageTracker(cwd, { hardUsd: 1, hardAction: 'refuse' });
+    const overrides = vi.fn();
+    tracker.on('override', overrides);
+    tracker.record(usage(1));
+    expect(tracker.isBlocked()).toBe(true);
+
+    tracker.override();
+    expect(overrides).toHaveBeenCalledOnce();
+    expect(tracker.isBlocked()).toBe(false);
+    expect(tracker.getSummary().budget).toMatchObject({ blocked: false, overridden: true });
+
+    // Overrides do not carry over to the next day
+    vi.setSystemTime(new Date(2026, 2, 15, 9, 0, 0));
+    tracker.record(usage(1));
+    expect(tracker.isBlocked()).toBe(true);
+  });
+
+  it('should emit newDay after each local midnight', () => {
+    const tracker = new UsageTracker(cwd, { hardAction: 'queue' });
+    const days: string[] = [];
+    tracker.on('newDay', day => days.push(day));
+    tracker.start();
+
+    vi.advanceTimersByTime(msUntilNextDay() + 1000);
+    expect(days).toEqual(['2026-03-15']);
+    vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+    expect(days).toEqual(['2026-03-15', '2026-03-16']);
+
+    tracker.stop();
+    vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+    expect(days).toHaveLength(2);
+  });
+});
+
+describe('msUntilNextDay', () => {
+  it('should count to the next local midnight', () => {
+    expect(msUntilNextDay(new Date(2026, 2, 14, 23, 59, 0))).toBe(60_000);
+    expect(msUntilNextDay(new Date(2026, 2, 14, 0, 0, 0))).toBe(24 * 60 * 60 * 1000);
+  });
+});
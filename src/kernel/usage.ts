@@ -0,0 +1,236 @@
+import { EventEmitter } from 'events';
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { createLogger } from './logger.js';
+import type { QueryUsage, UsageTotals } from '../types.js';
+
+const log = createLogger('usage');
+
+const USAGE_FILE = '.kernel-usage.json';
+// Per-query records kept for get_usage
+const RECENT_LIMIT = 100;
+
+// Told to whoever sends a prompt once the hard budget refuses them
+export const BUDGET_REFUSED = 'Daily budget reached. Use /usage override to continue today.';
+
+export interface BudgetOptions {
+  // Post a warning once spend for the day reaches this
+  softUsd?: number;
+  // Hold or refuse new prompts once spend for the day reaches this
+  hardUsd?: number;
+  hardAction: 'queue' | 'refuse';
+}
+
+export interface BudgetEvent {
+  kind: 'soft' | 'hard';
+  spentUsd: number;
+  limitUsd: number;
+}
+
+interface UsageData {
+  days: Record<string, UsageTotals>;
+  sessions: Record<string, UsageTotals & { lastUsedAt: string }>;
+  recent: Array<QueryUsage & { at: string }>;
+  // Day the soft warning was last posted
+  warnedDay?: string;
+  // Day the owner lifted the hard limit
+  overrideDay?: string;
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    queries: 0,
+    costUsd: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheCreationTokens: 0,
+  };
+}
+
+function addUsage(totals: UsageTotals, usage: QueryUsage): void {
+  totals.queries += 1;
+  totals.costUsd += usage.costUsd;
+  totals.inputTokens += usage.inputTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.cacheReadTokens += usage.cacheReadTokens;
+  totals.cacheCreationTokens += usage.cacheCreationTokens;
+}
+
+/**
+ * Local calendar day (YYYY-MM-DD), the unit daily budgets reset on
+ */
+function today(): string {
+  return new Date().toLocaleDateString('en-CA');
+}
+
+/**
+ * Milliseconds from now until the next local midnight
+ */
+export function msUntilNextDay(now: Date = new Date()): number {
+  const midnight = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  return midnight.getTime() - now.getTime();
+}
+
+export interface UsageTracker {
+  on(event: 'budget', listener: (event: BudgetEvent) => void): this;
+  on(event: 'override', listener: () => void): this;
+  on(event: 'newDay', listener: (day: string) => void): this;
+  emit(event: 'budget', budgetEvent: BudgetEvent): boolean;
+  emit(event: 'override'): boolean;
+  emit(event: 'newDay', day: string): boolean;
+}
+
+/**
+ * Per-query, per-session and per-day cost and token totals, persisted to
+ * .kernel-usage.json, with soft and hard daily budgets.
+ */
+export class UsageTracker extends EventEmitter {
+  private filePath: string;
+  private data: UsageData = { days: {}, sessions: {}, recent: [] };
+  readonly budget: BudgetOptions;
+  private rollover: NodeJS.Timeout | null = null;
+
+  constructor(cwd: string, budget: BudgetOptions) {
+    super();
+    this.filePath = join(cwd, USAGE_FILE);
+    this.budget = budget;
+    this.load();
+  }
+
+  private load(): void {
+    if (!existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(readFileSync(this.filePath, 'utf-8'));
+      this.data = {
+        days: parsed.days ?? {},
+        sessions: parsed.sessions ?? {},
+        recent: Array.isArray(parsed.recent) ? parsed.recent : [],
+        warnedDay: parsed.warnedDay,
+        overrideDay: parsed.overrideDay,
+      };
+    } catch (error) {
+      log.error('Failed to load usage file', error);
+    }
+  }
+
+  private save(): void {
+    try {
+      writeFileSync(this.filePath, JSON.stringify(this.data, null, 2), 'utf-8');
+    } catch (error) {
+      log.error('Failed to save usage file', error);
+    }
+  }
+
+  /**
+   * Record a completed query and check the daily budgets
+   */
+  record(usage: QueryUsage): void {
+    const day = today();
+    const dayTotals = this.data.days[day] ?? emptyTotals();
+    const spentBefore = dayTotals.costUsd;
+    addUsage(dayTotals, usage);
+    this.data.days[day] = dayTotals;
+
+    if (usage.sessionId) {
+      const sessionTotals = this.data.sessions[usage.sessionId] ?? { ...emptyTotals(), lastUsedAt: '' };
+      addUsage(sessionTotals, usage);
+      sessionTotals.lastUsedAt = new Date().toISOString();
+      this.data.sessions[usage.sessionId] = sessionTotals;
+    }
+
+    this.data.recent.push({ ...usage, at: new Date().toISOString() });
+    this.data.recent = this.data.recent.slice(-RECENT_LIMIT);
+
+    log.info(`Query cost $${usage.costUsd.toFixed(4)}, today $${dayTotals.costUsd.toFixed(4)}`);
+
+    const { softUsd, hardUsd } = this.budget;
+    const spent = dayTotals.costUsd;
+
+    if (softUsd !== undefined && spent >= softUsd && this.data.warnedDay !== day) {
+      this.data.warnedDay = day;
+      this.emit('budget', { kind: 'soft', spentUsd: spent, limitUsd: softUsd });
+    }
+
+    if (hardUsd !== undefined && spent >= hardUsd && spentBefore < hardUsd && this.data.overrideDay !== day) {
+      log.warn(`Daily hard budget reached ($${spent.toFixed(2)} of $${hardUsd.toFixed(2)})`);
+      this.emit('budget', { kind: 'hard', spentUsd: spent, limitUsd: hardUsd });
+    }
+
+    this.save();
+  }
+
+  /**
+   * True once today's spend reaches the hard budget, unless overridden
+   */
+  isBlocked(): boolean {
+    const { hardUsd } = this.budget;
+    if (hardUsd === undefined) return false;
+    const day = today();
+    return this.data.overrideDay !== day && (this.data.days[day]?.costUsd ?? 0) >= hardUsd;
+  }
+
+  /**
+   * Lift the hard budget for the rest of today
+   */
+  override(): void {
+    this.data.overrideDay = today();
+    this.save();
+    log.info('Daily hard budget overridden for today');
+    this.emit('override');
+  }
+
+  /**
+   * Emit 'newDay' at every local midnight, when daily budgets reset
+   */
+  start(): void {
+    this.stop();
+    // A second late, so today() is already the new day
+    this.rollover = setTimeout(() => {
+      log.info(`New budget day ${today()}`);
+      this.emit('newDay', today());
+      this.start();
+    }, msUntilNextDay() + 1000);
+  }
+
+  stop(): void {
+    if (this.rollover) {
+      clearTimeout(this.rollover);
+      this.rollover = null;
+    }
+  }
+
+  getToday(): UsageTotals {
+    return this.data.days[today()] ?? emptyTotals();
+  }
+
+  getSession(sessionId: string): UsageTotals | undefined {
+    return this.data.sessions[sessionId];
+  }
+
+  /**
+   * Snapshot for get_usage: today, budget state, a session and recent queries
+   */
+  getSummary(options: { sessionId?: string; days?: number; recent?: number } = {}) {
+    const dayKeys = Object.keys(this.data.days).sort().slice(-(options.days ?? 7));
+    return {
+      date: today(),
+      today: this.getToday(),
+      budget: {
+        softUsd: this.budget.softUsd ?? null,
+        hardUsd: this.budget.hardUsd ?? null,
+        hardAction: this.budget.hardAction,
+        blocked: this.isBlocked(),
+        overridden: this.data.overrideDay === today(),
+      },
+      session: options.sessionId
+        ? { sessionId: options.sessionId, ...(this.getSession(options.sessionId) ?? emptyTotals()) }
+        : null,
+      days: Object.fromEntries(dayKeys.map(day => [day, this.data.days[day]])),
+      recent: this.data.recent.slice(-(options.recent ?? 10)),
+    };
+  }
+}
@@ -0,0 +1,234 @@
+import { fork, type ChildProcess } from 'child_process';
+import { fileURLToPath } from 'url';
+import { extname, resolve } from 'path';
+import { config as dotenvConfig } from 'dotenv';
+import { createLogger, configureLogger } from './kernel/logger.js';
+import { restartEnv, type KernelMessage, type RestartInfo } from './kernel/supervisor-ipc.js';
+import {
+  INITIAL_CRASH_HISTORY,
+  CRASH_LOOP_WINDOW_MS,
+  HEALTH_MAX_FAILURES,
+  classifyExit,
+  inStartupGrace,
+  nextRestart,
+  recordHealthCheck,
+  type CrashHistory,
+} from './kernel/supervisor-policy.js';
+
+/**
+ * Kernel supervisor: spawns the kernel with an IPC channel, restarts it on
+ * crash (with exponential backoff) or when /health stops answering, gives
+ * up on a crash loop, and handles restart requests from the restart_kernel
+ * tool. A kernel that exits with code 0 on its own stops the supervisor too.
+ */
+
+dotenvConfig();
+configureLogger({ file: resolve('logs/supervisor.log') });
+
+const log = createLogger('supervisor');
+
+const MCP_PORT = process.env.MCP_PORT ? parseInt(process.env.MCP_PORT, 10) : 3100;
+// The kernel's MCP_HOST, unless it listens on every interface
+const MCP_HOST = !process.env.MCP_HOST || ['0.0.0.0', '::'].includes(process.env.MCP_HOST) ? '127.0.0.1' : process.env.MCP_HOST;
+const HEALTH_URL = `http://${MCP_HOST.includes(':') ? `[${MCP_HOST}]` : MCP_HOST}:${MCP_PORT}/health`;
+
+const HEALTH_INTERVAL_MS = 10_000;
+const HEALTH_TIMEOUT_MS = 5_000;
+
+const SHUTDOWN_TIMEOUT_MS = 10_000;
+
+// Run the kernel the same way the supervisor runs (src/index.ts under tsx, dist/index.js in production)
+const KERNEL_ENTRY = fileURLToPath(new URL(`./index${extname(fileURLToPath(import.meta.url))}`, import.meta.url));
+
+class Supervisor {
+  private child: ChildProcess | null = null;
+  private startedAt = 0;
+  private crashHistory: CrashHistory = INITIAL_CRASH_HISTORY;
+  private healthTimer: NodeJS.Timeout | null = null;
+  private healthFailures = 0;
+  private restartTimer: NodeJS.Timeout | null = null;
+  // Set while we are stopping the child on purpose
+  private pendingRestart: RestartInfo | null = null;
+  private lastSessionId: string | null = null;
+  private shuttingDown = false;
+
+  start(): void {
+    log.info(`Supervising ${KERNEL_ENTRY}`);
+    this.spawn(null);
+
+    process.on('SIGINT', () => this.shutdown('SIGINT'));
+    process.on('SIGTERM', () => this.shutdown('SIGTERM'));
+  }
+
+  private spawn(restartInfo: RestartInfo | null): void {
+    const child = fork(KERNEL_ENTRY, [], { env: restartEnv(process.env, restartInfo), stdio: 'inherit' });
+    this.child = child;
+    this.startedAt = Date.now();
+    this.healthFailures = 0;
+    log.info(`Kernel started (pid ${child.pid})${restartInfo ? ` after ${restartInfo.reason} restart` : ''}`);
+
+    child.on('message', (message: KernelMessage) => this.handleMessage(message));
+    child.on('exit', (code, signal) => this.handleExit(child, code, signal));
+
+    this.scheduleHealthChecks();
+  }
+
+  private handleMessage(message: KernelMessage): void {
+    switch (message.type) {
+      case 'ready':
+        this.lastSessionId = message.sessionId;
+        log.info(`Kernel ready after ${Date.now() - this.startedAt}ms (session: ${message.sessionId ?? 'new'})`);
+        break;
+
+      case 'restart':
+        log.info('Restart requested by kernel');
+        this.lastSessionId = message.sessionId;
+        this.pendingRestart = {
+          reason: 'requested',
+          requestedAt: message.requestedAt,
+          previousSessionId: message.sessionId,
+        };
+        this.stopChild();
+        break;
+    }
+  }
+
+  private handleExit(child: ChildProcess, code: number | null, signal: NodeJS.Signals | null): void {
+    if (child !== this.child) return;
+    this.child = null;
+    this.clearHealthChecks();
+
+    switch (classifyExit({ code, signal, shuttingDown: this.shuttingDown, restartPending: this.pendingRestart !== null })) {
+      case 'shutdown':
+        log.info('Kernel stopped, supervisor exiting');
+        process.exit(0);
+        return;
+
+      case 'restart': {
+        // Deliberate restart (requested or unhealthy): respawn right away
+        const info = this.pendingRestart;
+        this.pendingRestart = null;
+        this.spawn(info);
+        return;
+      }
+
+      case 'clean':
+        // The kernel chose to stop; that is not a crash to recover from
+        log.info('Kernel exited cleanly, supervisor exiting');
+        process.exit(0);
+        return;
+    }
+
+    log.error(`Kernel exited unexpectedly (code ${code}, signal ${signal})`);
+    this.restartAfterFailure({
+      reason: 'crash',
+      requestedAt: Date.now(),
+      previousSessionId: this.lastSessionId,
+      exitCode: code,
+      signal,
+    });
+  }
+
+  /**
+   * Respawn with exponential backoff, or give up on a crash loop
+   */
+  private restartAfterFailure(info: RestartInfo): void {
+    const { history, delayMs: delay } = nextRestart(this.crashHistory, this.startedAt, Date.now());
+    this.crashHistory = history;
+    if (delay === null) {
+      log.error(`Crash loop detected: ${history.crashes.length} failures in ${CRASH_LOOP_WINDOW_MS / 60_000} minutes, giving up`);
+      process.exit(1);
+    }
+
+    log.info(`Restarting kernel in ${delay}ms`);
+
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      this.spawn(info);
+    }, delay);
+  }
+
+  private scheduleHealthChecks(): void {
+    this.clearHealthChecks();
+    this.healthTimer = setInterval(() => this.checkHealth(), HEALTH_INTERVAL_MS);
+  }
+
+  private clearHealthChecks(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+
+  private async checkHealth(): Promise<void> {
+    if (!this.child || this.pendingRestart || inStartupGrace(this.startedAt, Date.now())) return;
+
+    try {
+      const response = await fetch(HEALTH_URL, { signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS) });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const health = await response.json() as { sessionId?: string };
+      this.lastSessionId = health.sessionId ?? this.lastSessionId;
+      this.healthFailures = recordHealthCheck(this.healthFailures, true).failures;
+    } catch (error) {
+      const { failures, unhealthy } = recordHealthCheck(this.healthFailures, false);
+      this.healthFailures = failures;
+      log.warn(`Health check failed (${failures}/${HEALTH_MAX_FAILURES})`, error);
+
+      if (unhealthy) {
+        log.error('Kernel unhealthy, restarting');
+        const child = this.child;
+        this.child = null;
+        this.clearHealthChecks();
+        child.removeAllListeners('exit');
+        child.once('exit', () => {
+          this.restartAfterFailure({
+            reason: 'unhealthy',
+            requestedAt: Date.now(),
+            previousSessionId: this.lastSessionId,
+          });
+        });
+        this.kill(child);
+      }
+    }
+  }
+
+  private stopChild(): void {
+    if (this.child) {
+      this.clearHealthChecks();
+      this.kill(this.child);
+    }
+  }
+
+  /**
+   * SIGTERM, then SIGKILL if the kernel does not exit in time
+   */
+  private kill(child: ChildProcess): void {
+    child.kill('SIGTERM');
+    const timer = setTimeout(() => {
+      if (child.exitCode === null && child.signalCode === null) {
+        log.warn('Kernel did not exit in time, force killing');
+        child.kill('SIGKILL');
+      }
+    }, SHUTDOWN_TIMEOUT_MS);
+    child.once('exit', () => clearTimeout(timer));
+  }
+
+  private shutdown(signal: string): void {
+    if (this.shuttingDown) return;
+    this.shuttingDown = true;
+    log.info(`Received ${signal}, stopping kernel...`);
+
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+    }
+    if (this.child) {
+      this.stopChild();
+    } else {
+      process.exit(0);
+    }
+  }
+}
+
+new Supervisor().start();
@@ -0,0 +1,271 @@
+import { randomUUID } from 'crypto';
+import type {
+  Options,
+  PermissionResult,
+  Query,
+  SDKMessage,
+  SDKUserMessage,
+} from '@anthropic-ai/claude-agent-sdk';
+import type { QueryProvider } from '../kernel/orchestrator.js';
+
+/**
+ * One scripted query. The test pushes SDK events into it; the orchestrator
+ * iterating it sees them in order until end() or interrupt().
+ *
+ * Like the SDK, a query with a streaming prompt reads user turns as they
+ * arrive and ends once the stream is closed and every turn has a result.
+ */
+export class FakeQuery implements AsyncIterableIterator<SDKMessage> {
+  readonly prompt: string | AsyncIterable<SDKUserMessage>;
+  readonly options: Options;
+  // Text of each user turn read from a streaming prompt
+  readonly inputs: string[] = [];
+  inputEnded = false;
+  sessionId = '';
+  interrupted = false;
+  // Set to false for a query that keeps going for a while after interrupt()
+  endOnInterrupt = true;
+  private events: SDKMessage[] = [];
+  private results = 0;
+  // Spend so far; like the SDK's, each result reports totals for the whole query
+  private spentUsd = 0;
+  private ended = false;
+  private wake: (() => void) | null = null;
+
+  constructor(prompt: string | AsyncIterable<SDKUserMessage>, options: Options) {
+    this.prompt = prompt;
+    this.options = options;
+    if (typeof prompt !== 'string') {
+      this.readInput(prompt);
+    }
+  }
+
+  private async readInput(prompt: AsyncIterable<SDKUserMessage>): Promise<void> {
+    for await (const message of prompt) {
+      const content = message.message.content;
+      if (typeof content === 'string') {
+        this.inputs.push(content);
+        continue;
+      }
+      const text: string[] = [];
+      for (const block of content) {
+        if (block.type === 'text') text.push(block.text);
+      }
+      this.inputs.push(text.join(''));
+    }
+    this.inputEnded = true;
+    if (this.results >= this.inputs.length) this.end();
+  }
+
+  /**
+   * Text of user turn `index` (0 is the prompt), waiting for it to arrive
+   */
+  async input(index: number, timeoutMs = 2000): Promise<string> {
+    if (typeof this.prompt === 'string') {
+      if (index === 0) return this.prompt;
+      throw new Error('String prompts have a single turn');
+    }
+    const deadline = Date.now() + timeoutMs;
+    while (this.inputs.length <= index) {
+      if (Date.now() > deadline) throw new Error(`No user turn ${index} within ${timeoutMs}ms`);
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    return this.inputs[index];
+  }
+
+  async promptText(): Promise<string> {
+    return this.input(0);
+  }
+
+  push(event: SDKMessage): this {
+    if (this.ended) throw new Error('Query already ended');
+    this.events.push(event);
+    this.wake?.();
+    return this;
+  }
+
+  end(): void {
+    this.ended = true;
+    this.wake?.();
+  }
+
+  /**
+   * After a result: string prompts are done, streaming prompts once their
+   * input has ended and every turn is answered
+   */
+  private turnAnswered(): void {
+    this.results++;
+    if (typeof this.prompt === 'string' || (this.inputEnded && this.results >= this.inputs.length)) {
+      this.end();
+    }
+  }
+
+  /** system/init, which starts (or resumes) the session; mcpTools are mcp__<server>__<tool> names */
+  init(sessionId: string, mcpServers: Array<{ name: string; status: string; error?: string }> = [], mcpTools: string[] = []): this {
+    this.sessionId = sessionId;
+    return this.push({
+      type: 'system',
+      subtype: 'init',
+      apiKeySource: 'user',
+      claude_code_version: 'fake',
+      cwd: this.options.cwd ?? '',
+      tools: ['Bash', 'Read', 'Edit', 'Write', ...mcpTools],
+      mcp_servers: mcpServers,
+      model: 'fake-model',
+      permissionMode: 'default',
+      slash_commands: [],
+      output_style: 'default',
+      skills: [],
+      plugins: [],
+      uuid: randomUUID(),
+      session_id: sessionId,
+    });
+  }
+
+  text(text: string): this {
+    return this.assistant([{ type: 'text', text }]);
+  }
+
+  toolUse(id: string, name: string, input: Record<string, unknown> = {}): this {
+    return this.assistant([{ type: 'tool_use', id, name, input }]);
+  }
+
+  toolResult(toolUseId: string, content: unknown, isError = false): this {
+    return this.push({
+      type: 'user',
+      message: {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: toolUseId, content, is_error: isError }],
+      },
+      parent_tool_use_id: null,
+      session_id: this.sessionId,
+    } as SDKMessage);
+  }
+
+  /** Successful result for the current turn, which cost costUsd */
+  result(result: string, costUsd = 0.01): void {
+    this.push({
+      ...this.resultFields(costUsd),
+      subtype: 'success',
+      is_error: false,
+      result,
+    } as SDKMessage);
+    this.turnAnswered();
+  }
+
+  /** Error result for the current turn */
+  fail(errors: string[], costUsd = 0.01): void {
+    this.push({
+      ...this.resultFields(costUsd),
+      subtype: 'error_during_execution',
+      is_error: true,
+      errors,
+    } as SDKMessage);
+    this.turnAnswered();
+  }
+
+  /**
+   * Ask the orchestrator's canUseTool, as the SDK does before running a tool
+   */
+  async canUseTool(toolName: string, input: Record<string, unknown>, toolUseId = randomUUID()): Promise<PermissionResult> {
+    if (!this.options.canUseTool) throw new Error('Query has no canUseTool');
+    return this.options.canUseTool(toolName, input, {
+      signal: new AbortController().signal,
+      toolUseID: toolUseId,
+    });
+  }
+
+  private assistant(content: unknown[]): this {
+    return this.push({
+      type: 'assistant',
+      message: { id: `msg_${randomUUID()}`, role: 'assistant', content },
+      parent_tool_use_id: null,
+      uuid: randomUUID(),
+      session_id: this.sessionId,
+    } as SDKMessage);
+  }
+
+  private resultFields(costUsd: number) {
+    const turns = this.results + 1;
+    this.spentUsd += costUsd;
+    return {
+      type: 'result' as const,
+      duration_ms: 10 * turns,
+      duration_api_ms: 10 * turns,
+      num_turns: turns,
+      total_cost_usd: this.spentUsd,
+      usage: {
+        input_tokens: 100 * turns,
+        output_tokens: 50 * turns,
+        cache_read_input_tokens: 0,
+        cache_creation_input_tokens: 0,
+      },
+      modelUsage: {},
+      permission_denials: [],
+      uuid: randomUUID(),
+      session_id: this.sessionId,
+    };
+  }
+
+  async next(): Promise<IteratorResult<SDKMessage, void>> {
+    while (this.events.length === 0 && !this.ended) {
+      await new Promise<void>((resolve) => { this.wake = resolve; });
+      this.wake = null;
+    }
+    const event = this.events.shift();
+    return event ? { value: event, done: false } : { value: undefined, done: true };
+  }
+
+  async return(): Promise<IteratorResult<SDKMessage, void>> {
+    this.end();
+    return { value: undefined, done: true };
+  }
+
+  async interrupt(): Promise<void> {
+    this.interrupted = true;
+    this.events = [];
+    if (this.endOnInterrupt) this.end();
+  }
+
+  [Symbol.asyncIterator](): this {
+    return this;
+  }
+}
+
+/**
+ * Stands in for the Agent SDK: pass `sdk.query` as the query provider and
+ * drive each query the kernel starts with nextQuery()
+ */
+export class FakeSDK {
+  readonly queries: FakeQuery[] = [];
+  private taken = 0;
+  private waiters: Array<() => void> = [];
+
+  readonly query: QueryProvider = ({ prompt, options }) => {
+    const query = new FakeQuery(prompt, options ?? {});
+    this.queries.push(query);
+    for (const wake of this.waiters.splice(0)) wake();
+    return query as unknown as Query;
+  };
+
+  /**
+   * The next query started since the last call, waiting for it if needed
+   */
+  async nextQuery(timeoutMs = 2000): Promise<FakeQuery> {
+    const deadline = Date.now() + timeoutMs;
+    while (this.queries.length <= this.taken) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new Error(`No query started within ${timeoutMs}ms (${this.queries.length} so far)`);
+      }
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, remaining);
+        this.waiters.push(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    }
+    return this.queries[this.taken++];
+  }
+}
@@ -0,0 +1,203 @@
+import { EventEmitter } from 'events';
+import type {
+  AccessLevel,
+  ApprovalDecision,
+  ApprovalRequest,
+  ChannelType,
+  QuestionAnswers,
+  QuestionRequest,
+} from '../types.js';
+import type {
+  ChatAttachment,
+  ChatMessage,
+  ChatReaction,
+  ChatTransport,
+  CommandRegistration,
+  OutgoingFile,
+  RichMessage,
+  SentMessage,
+  SentRichMessage,
+} from '../kernel/transport.js';
+
+export interface RecordedPost {
+  channel: ChannelType;
+  // Latest content after edits
+  content: string;
+  edits: number;
+}
+
+export interface RecordedImages {
+  channel: ChannelType;
+  images: OutgoingFile[];
+  caption?: string;
+}
+
+/**
+ * In-memory chat transport that records everything the kernel sends.
+ * Messages are injected with receive().
+ */
+export class FakeTransport extends EventEmitter implements ChatTransport {
+  // send() and sendThread(), keyed 'chat', 'verbose', ... or 'thread:<id>'
+  readonly sent: Array<{ id: string; target: string; content: string }> = [];
+  readonly posts: RecordedPost[] = [];
+  readonly rich: Array<{ channel: ChannelType; message: RichMessage }> = [];
+  readonly images: RecordedImages[] = [];
+  readonly reactions: Array<{ messageId: string; emoji: string }> = [];
+  readonly approvals: ApprovalRequest[] = [];
+  // Answer for requestApproval (null = nobody answered)
+  approvalDecision: ApprovalDecision | null = 'allow';
+  readonly questions: QuestionRequest[] = [];
+  // Answers given to askQuestions (questions left out timed out)
+  questionAnswers: QuestionAnswers = {};
+  // Slash commands the kernel offered
+  commands: CommandRegistration | null = null;
+  // sendTyping() calls, 'chat' or 'thread:<id>'
+  readonly typing: string[] = [];
+  // sendToChannel() deliveries
+  readonly routed: Array<{ channel: string; content: string; files: OutgoingFile[] }> = [];
+  // Channels sendToChannel() can reach besides the built-in ones
+  readonly knownChannels: Set<string> = new Set(['chat', 'verbose', 'text', 'screenshots']);
+  private nextId = 1;
+
+  async connect(): Promise<void> {
+    this.emit('ready');
+  }
+
+  async disconnect(): Promise<void> {}
+
+  registerCommands(registration: CommandRegistration): void {
+    this.commands = registration;
+  }
+
+  /**
+   * Deliver a message to the kernel as if a user had sent it
+   */
+  receive(
+    content: string,
+    options: { threadId?: string; level?: AccessLevel; authorName?: string; attachments?: ChatAttachment[] } = {}
+  ): ChatMessage {
+    const message: ChatMessage = {
+      id: String(this.nextId++),
+      content,
+      authorId: 'user-1',
+      authorName: options.authorName ?? 'tester',
+      level: options.level ?? 'admin',
+      threadId: options.threadId,
+      attachments: options.attachments ?? [],
+    };
+    this.emit('message', message);
+    return message;
+  }
+
+  /**
+   * React to a message as a user
+   */
+  reactAs(message: ChatMessage, emoji: string, level: AccessLevel = 'admin'): void {
+    const reaction: ChatReaction = { messageId: message.id, emoji, userId: 'user-1', level, threadId: message.threadId };
+    this.emit('reaction', reaction);
+  }
+
+  /** Emojis the kernel added to a message, in order */
+  reactionsFor(message: ChatMessage): string[] {
+    return this.reactions.filter(reaction => reaction.messageId === message.id).map(reaction => reaction.emoji);
+  }
+
+  /** Text sent to the chat channel or a thread */
+  sentTo(target: string): string[] {
+    return this.sent.filter(entry => entry.target === target).map(entry => entry.content);
+  }
+
+  /**
+   * React to a message the kernel sent, found by its content
+   */
+  reactToSent(target: string, match: string, emoji: string, level: AccessLevel = 'admin'): void {
+    const sent = this.sent.find(entry => entry.target === target && entry.content.includes(match));
+    if (!sent) throw new Error(`Nothing sent to ${target} matching "${match}"`);
+    const threadId = target.startsWith('thread:') ? target.slice('thread:'.length) : undefined;
+    const reaction: ChatReaction = { messageId: sent.id, emoji, userId: 'user-1', level, threadId };
+    this.emit('reaction', reaction);
+  }
+
+  async send(channelType: ChannelType, content: string): Promise<string[]> {
+    const id = `sent-${this.nextId++}`;
+    this.sent.push({ id, target: channelType, content });
+    return [id];
+  }
+
+  async sendThread(threadId: string, content: string): Promise<string[]> {
+    const id = `sent-${this.nextId++}`;
+    this.sent.push({ id, target: `thread:${threadId}`, content });
+    return [id];
+  }
+
+  async sendToChannel(channel: string, content: string, files: OutgoingFile[] = []): Promise<boolean> {
+    if (!this.knownChannels.has(channel)) return false;
+    this.routed.push({ channel, content, files });
+    return true;
+  }
+
+  async postMessage(channelType: ChannelType, content: string): Promise<SentMessage | null> {
+    const post: RecordedPost = { channel: channelType, content, edits: 0 };
+    this.posts.push(post);
+    return {
+      edit: async (next: string) => {
+        post.content = next;
+        post.edits++;
+      },
+    };
+  }
+
+  async postRich(channelType: ChannelType, message: RichMessage): Promise<SentRichMessage | null> {
+    const entry = { channel: channelType, message };
+    this.rich.push(entry);
+    return {
+      update: async (next: RichMessage) => {
+        entry.message = next;
+      },
+    };
+  }
+
+  async sendVerbose(label: string, data: unknown): Promise<void> {
+    this.sent.push({ id: `sent-${this.nextId++}`, target: 'verbose', content: `${label} ${JSON.stringify(data)}` });
+  }
+
+  async sendImage(channelType: ChannelType, imageData: Buffer | string, filename = 'image.png', caption?: string): Promise<void> {
+    const data = typeof imageData === 'string' ? Buffer.from(imageData, 'base64') : imageData;
+    await this.sendImages(channelType, [{ name: filename, data }], caption);
+  }
+
+  async sendImages(channelType: ChannelType, images: OutgoingFile[], caption?: string): Promise<void> {
+    this.images.push({ channel: channelType, images, caption });
+  }
+
+  async sendTyping(threadId?: string): Promise<void> {
+    this.typing.push(threadId ? `thread:${threadId}` : 'chat');
+  }
+
+  async react(message: ChatMessage, emoji: string): Promise<void> {
+    this.reactions.push({ messageId: message.id, emoji });
+  }
+
+  async requestApproval(request: ApprovalRequest): Promise<ApprovalDecision | null> {
+    this.approvals.push(request);
+    return this.approvalDecision;
+  }
+
+  async askQuestions(request: QuestionRequest): Promise<QuestionAnswers> {
+    this.questions.push(request);
+    return { ...this.questionAnswers };
+  }
+}
+
+/**
+ * Poll until the condition holds, failing after timeoutMs
+ */
+export async function waitFor(condition: () => boolean, timeoutMs = 2000, description = 'condition'): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for ${description}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
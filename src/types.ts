@@ -1,25 +1,170 @@
 // Orchestrator state
 export type OrchestratorState = 'idle' | 'running';
 
+// What an allowlisted Discord user may do: read-only can use status
+// commands, prompt can also talk to Claude, admin can also restart and
+// change configuration
+export type AccessLevel = 'read-only' | 'prompt' | 'admin';
+
 // Status response from get_status
 export interface KernelStatus {
   state: OrchestratorState;
   sessionId?: string;
   uptime: number;
+  queueDepth: number;
+}
+
+// An MCP server as reported by the last query's system/init event
+export interface McpServerHealth {
+  name: string;
+  // 'connected', 'failed', 'needs-auth', 'pending', or 'unknown' before any query has run
+  status: string;
+  // Tools it exposed, without the mcp__<server>__ prefix
+  tools: string[];
+  lastError: string | null;
+  lastErrorAt: string | null;
+  // When a query last reported this server
+  checkedAt: string | null;
+}
+
+// Image sent to Claude alongside a prompt
+export interface PromptImage {
+  mediaType: string;
+  // Base64-encoded image data
+  data: string;
+  filename?: string;
+}
+
+// A prompt waiting in the orchestrator queue
+export interface QueuedMessage {
+  id: string;
+  message: string;
+  images?: PromptImage[];
+  queuedAt: string;
 }
 
 // Events emitted by the orchestrator
 export interface OrchestratorEvents {
   text: (text: string) => void;
+  text_delta: (delta: string) => void;
   tool_use: (tool: { id: string; name: string; input: unknown }) => void;
-  tool_result: (result: { id: string; content: unknown }) => void;
+  tool_result: (result: { id: string; content: unknown; isError?: boolean }) => void;
   result: (result: string) => void;
   error: (error: Error) => void;
   stateChange: (state: OrchestratorState) => void;
+  session: (sessionId: string) => void;
+  usage: (usage: QueryUsage) => void;
+  stalled: (progress: QueryProgress) => void;
+}
+
+// How far the running query has got, for progress updates and the idle watchdog
+export interface QueryProgress {
+  startedAt: number;
+  // Last SDK event (or the end of a wait for the owner's approval or answers)
+  lastEventAt: number;
+  // Assistant messages from the main agent so far
+  turns: number;
+  // Tool still waiting for its result, else the last one called
+  lastTool: string | null;
+  toolRunning: boolean;
+}
+
+// Persisted mapping of a Discord thread to its SDK session
+export interface ThreadSessionRecord {
+  sessionId: string;
+  createdAt: string;
+  lastActiveAt: string;
+}
+
+// One SDK session in the kernel's session history
+export interface SessionHistoryEntry {
+  sessionId: string;
+  // 'main' or 'thread:<id>'
+  origin: string;
+  startedAt: string;
+  lastActiveAt: string;
+  firstPrompt: string;
+  lastResult: string | null;
+}
+
+// A prompt the kernel sends to Claude later, on a cron schedule or once
+export interface ScheduledPrompt {
+  id: string;
+  prompt: string;
+  // Either a cron expression or a one-shot time (ISO timestamp)
+  cron?: string;
+  runAt?: string;
+  // IANA timezone for cron expressions (default UTC)
+  timezone?: string;
+  // Thread whose session gets the prompt; the main session if unset
+  threadId?: string;
+  createdAt: string;
+  lastRunAt: string | null;
+}
+
+// Owner decision on a tool permission prompt
+export type ApprovalDecision = 'allow' | 'allow_session' | 'deny';
+
+// Tool call awaiting the owner's approval
+export interface ApprovalRequest {
+  toolName: string;
+  input: Record<string, unknown>;
+  reason?: string;
+  timeoutMs: number;
+  defaultDecision: 'allow' | 'deny';
+}
+
+// Asks the owner about a tool call; resolves null on timeout
+export type ApprovalHandler = (request: ApprovalRequest) => Promise<ApprovalDecision | null>;
+
+// One question from Claude's AskUserQuestion tool
+export interface UserQuestion {
+  question: string;
+  // Short label, e.g. "Library"
+  header: string;
+  options: Array<{ label: string; description: string }>;
+  multiSelect: boolean;
+}
+
+// Questions awaiting the owner's answers
+export interface QuestionRequest {
+  questions: UserQuestion[];
+  timeoutMs: number;
+  // Answer used for unanswered questions (null = each question's first option)
+  defaultAnswer: string | null;
+}
+
+// Answers by question text; several picked options are joined with ", "
+export type QuestionAnswers = Record<string, string>;
+
+// Gets answers to every question, falling back to defaults on timeout
+export type QuestionHandler = (questions: UserQuestion[]) => Promise<QuestionAnswers>;
+
+// Cost and tokens for one completed query
+export interface QueryUsage {
+  sessionId: string;
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  durationMs: number;
+  numTurns: number;
+}
+
+// Accumulated cost and tokens (per session or per day)
+export interface UsageTotals {
+  queries: number;
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
 }
 
 // Restart options
 export interface RestartOptions {
+  // Keep the current session (or the latest one in the history) instead of starting fresh
   resume?: boolean;
   message?: string;
 }
@@ -0,0 +1,17 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    // Worker threads have no IPC channel, so the kernel never thinks a
+    // supervisor forked it
+    pool: 'threads',
+    env: {
+      KERNEL_TRANSPORT: 'cli',
+      LOG_FILE: 'logs/test.log',
+    },
+    testTimeout: 15_000,
+    hookTimeout: 15_000,
+  },
+});